@@ -3,7 +3,15 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { WeatherApp } from "./components/WeatherApp";
 import Index from "./pages/Index";
+import Station from "./pages/Station";
+import Today from "./pages/Today";
+import History from "./pages/History";
+import HistoryDay from "./pages/HistoryDay";
+import Import from "./pages/Import";
+import Settings from "./pages/Settings";
+import Compare from "./pages/Compare";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -15,7 +23,16 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route element={<WeatherApp />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/station/:stationId" element={<Station />} />
+            <Route path="/station/:stationId/today" element={<Today />} />
+            <Route path="/station/:stationId/history" element={<History />} />
+            <Route path="/station/:stationId/history/:date" element={<HistoryDay />} />
+            <Route path="/station/:stationId/import" element={<Import />} />
+            <Route path="/compare" element={<Compare />} />
+            <Route path="/settings" element={<Settings />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
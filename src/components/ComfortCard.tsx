@@ -0,0 +1,75 @@
+import { ReactNode } from 'react';
+import { Info, ThermometerSun } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { APPARENT_TEMPERATURE_METHODS, DERIVED_METRIC_FORMULAS, DerivedMetrics } from '@/lib/derived-metrics';
+import { formatNumber, UnitFormatter } from '@/lib/units';
+
+interface ComfortCardProps {
+  derived: DerivedMetrics;
+  units: UnitFormatter;
+  className?: string;
+}
+
+// A label whose tooltip explains how the value was calculated
+export const FormulaLabel = ({ formula, children }: { formula: string; children: ReactNode }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <span className="inline-flex cursor-help items-center">
+        {children}
+        <Info className="w-3 h-3 ml-1 opacity-70" />
+      </span>
+    </TooltipTrigger>
+    <TooltipContent className="max-w-64">{formula}</TooltipContent>
+  </Tooltip>
+);
+
+export const ComfortCard = ({ derived, units, className = '' }: ComfortCardProps) => {
+  const method = APPARENT_TEMPERATURE_METHODS[derived.apparent.method];
+  const rows = [
+    {
+      label: 'Feels Like',
+      formula: `${method.label}: ${method.formula}`,
+      value: `${units.temperature(derived.apparent.value)}${units.labels.temperature}`
+    },
+    {
+      label: 'Humidex',
+      formula: DERIVED_METRIC_FORMULAS.humidex,
+      // Humidex is a unitless index on the Celsius scale
+      value: formatNumber(derived.humidex)
+    },
+    {
+      label: 'Wet Bulb',
+      formula: DERIVED_METRIC_FORMULAS.wetBulb,
+      value: `${units.temperature(derived.wetBulb)}${units.labels.temperature}`
+    },
+    {
+      label: 'Absolute Humidity',
+      formula: DERIVED_METRIC_FORMULAS.absoluteHumidity,
+      value: `${formatNumber(derived.absoluteHumidity, 1)} g/m³`
+    }
+  ];
+
+  return (
+    <Card className={`bg-card-gradient border-0 shadow-card ${className}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <ThermometerSun className="w-4 h-4 text-weather-uv" />
+          <span>Comfort</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {rows.map((row) => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-sm text-muted-foreground">
+                <FormulaLabel formula={row.formula}>{row.label}</FormulaLabel>
+              </span>
+              <span className="text-sm font-semibold">{row.value}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
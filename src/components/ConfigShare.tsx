@@ -0,0 +1,229 @@
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Download, FileUp, Link2, Minus, Pencil, Plus, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { WeatherConfigData } from '@/lib/config';
+import {
+  ConfigChange,
+  decodeShareFragment,
+  diffSharedConfig,
+  getShareLink,
+  getSharedConfigFilename,
+  parseSharedConfig,
+  serializeSharedConfig,
+  SharedConfig,
+  toSharedConfig
+} from '@/lib/config-share';
+import { downloadFile } from '@/lib/export';
+
+interface ConfigShareProps {
+  // The settings as currently entered in the form
+  config: WeatherConfigData;
+  onImport: (shared: SharedConfig) => void;
+}
+
+const CHANGE_ICONS: Record<ConfigChange['type'], typeof Plus> = {
+  added: Plus,
+  removed: Minus,
+  changed: Pencil
+};
+
+export const ConfigShare = ({ config, onImport }: ConfigShareProps) => {
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [pending, setPending] = useState<SharedConfig | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "The setup could not be read",
+      variant: "destructive",
+      duration: 5000,
+    });
+  }, [toast]);
+
+  // Setup links open the settings page with the configuration in the hash
+  const { hash, pathname, search } = location;
+  useEffect(() => {
+    if (!hash) return;
+    decodeShareFragment(hash)
+      .then((shared) => {
+        if (!shared) return;
+        setPending(shared);
+        // Keep shared credentials out of the address bar and history
+        navigate({ pathname, search }, { replace: true });
+      })
+      .catch((error) => showError("Invalid Setup Link", error));
+  }, [hash, pathname, search, navigate, showError]);
+
+  const getShared = () => {
+    const shared = toSharedConfig(config, includeCredentials);
+    if (shared.stations.length === 0) {
+      toast({
+        title: "Nothing to Share",
+        description: "Add a station before exporting your setup",
+        duration: 3000,
+      });
+      return null;
+    }
+    return shared;
+  };
+
+  const handleDownload = () => {
+    const shared = getShared();
+    if (!shared) return;
+    downloadFile(getSharedConfigFilename(), serializeSharedConfig(shared), 'application/json');
+  };
+
+  const handleCopyLink = async () => {
+    const shared = getShared();
+    if (!shared) return;
+    try {
+      await navigator.clipboard.writeText(await getShareLink(shared));
+      toast({
+        title: "Link Copied",
+        description: includeCredentials
+          ? "Anyone with this link can use your credentials; only share it with people you trust"
+          : "Recipients will need to enter their own credentials",
+        duration: 5000,
+      });
+    } catch (error) {
+      showError("Could Not Copy Link", error);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPending(parseSharedConfig(await file.text()));
+    } catch (error) {
+      showError("Import Failed", error);
+    }
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    onImport(pending);
+    setPending(null);
+    toast({
+      title: "Setup Imported",
+      description: "Review the settings and save to start using them",
+      duration: 3000,
+    });
+  };
+
+  const changes = pending ? diffSharedConfig(toSharedConfig(config, true), pending) : [];
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="outline" size="sm">
+              <Share2 className="w-4 h-4 mr-2" />
+              Export Setup
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuCheckboxItem
+              checked={includeCredentials}
+              onCheckedChange={setIncludeCredentials}
+              onSelect={(e) => e.preventDefault()}
+            >
+              Include credentials
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={handleCopyLink}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy Setup Link
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import Setup
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Import Setup</DialogTitle>
+            <DialogDescription>
+              {pending?.credentials
+                ? "This setup includes credentials"
+                : "This setup has no credentials; your current ones are kept"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This setup matches your current settings.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <ul className="space-y-2">
+                {changes.map((change, index) => {
+                  const Icon = CHANGE_ICONS[change.type];
+                  return (
+                    <li key={index} className="flex items-start space-x-2 text-sm">
+                      <Icon
+                        className={`w-4 h-4 mt-0.5 shrink-0 ${
+                          change.type === 'removed' ? 'text-destructive' : 'text-primary'
+                        }`}
+                      />
+                      <div className="min-w-0">
+                        <div className="font-medium">{change.label}</div>
+                        {change.detail && <div className="text-xs text-muted-foreground">{change.detail}</div>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleApply} disabled={changes.length === 0}>
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
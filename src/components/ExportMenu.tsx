@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Download, FileJson, FileSpreadsheet, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import {
+  downloadFile,
+  ExportMetadata,
+  getExportFilename,
+  observationsToCsv,
+  observationsToJson
+} from '@/lib/export';
+import type { SummaryObservation } from '@/lib/pws';
+import type { UnitFormatter } from '@/lib/units';
+
+export interface ExportSource {
+  label: string;
+  metadata: ExportMetadata;
+  load: () => Promise<SummaryObservation[]>;
+}
+
+interface ExportMenuProps {
+  sources: ExportSource[];
+  units: UnitFormatter;
+}
+
+export const ExportMenu = ({ sources, units }: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (source: ExportSource, format: 'csv' | 'json') => {
+    setIsExporting(true);
+    try {
+      const observations = await source.load();
+      if (observations.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "The station recorded no data in this range",
+          duration: 3000,
+        });
+        return;
+      }
+      const { metadata } = source;
+      if (format === 'csv') {
+        downloadFile(getExportFilename(metadata, 'csv'), observationsToCsv(observations, metadata, units), 'text/csv');
+      } else {
+        downloadFile(getExportFilename(metadata, 'json'), observationsToJson(observations, metadata), 'application/json');
+      }
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not load the data to export",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isExporting}>
+          {isExporting ? (
+            <RefreshCw className="w-4 h-4 animate-weather-rotate" />
+          ) : (
+            <Download className="w-4 h-4" />
+          )}
+          <span className="hidden sm:inline ml-2">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {sources.map((source, index) => (
+          <div key={source.metadata.granularity}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{source.label}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => handleExport(source, 'csv')}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              CSV ({units.labels.temperature}, {units.labels.wind}, {units.labels.pressure})
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport(source, 'json')}>
+              <FileJson className="w-4 h-4 mr-2" />
+              Raw JSON
+            </DropdownMenuItem>
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,37 @@
+import { Gauge } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ExtraReading } from '@/lib/pws';
+import { convertMetric, formatNumber, getMetricDecimals, getMetricUnit, UnitFormatter } from '@/lib/units';
+
+interface ExtraSensorsCardProps {
+  extras: ExtraReading[];
+  units: UnitFormatter;
+}
+
+const formatExtra = ({ kind, value, unit }: ExtraReading, units: UnitFormatter) => {
+  if (!kind) return `${formatNumber(value)}${unit && unit !== '%' ? ' ' : ''}${unit}`;
+  const label = getMetricUnit({ kind }, units);
+  const converted = formatNumber(convertMetric({ kind }, value, units), getMetricDecimals({ kind }, units));
+  return kind === 'temperature' || kind === 'humidity' ? `${converted}${label}` : `${converted} ${label}`;
+};
+
+export const ExtraSensorsCard = ({ extras, units }: ExtraSensorsCardProps) => (
+  <Card className="bg-card-gradient border-0 shadow-card">
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-center space-x-2 text-base">
+        <Gauge className="w-4 h-4 text-primary" />
+        <span>Extra Sensors</span>
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+        {extras.map((extra) => (
+          <div key={extra.id} className="flex justify-between">
+            <span className="text-sm text-muted-foreground">{extra.label}</span>
+            <span className="text-sm font-semibold">{formatExtra(extra, units)}</span>
+          </div>
+        ))}
+      </div>
+    </CardContent>
+  </Card>
+);
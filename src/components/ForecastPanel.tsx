@@ -0,0 +1,117 @@
+import { Droplets, Sunrise } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useWeatherComForecast } from '@/hooks/use-weather-queries';
+import { getProviderCredentials, WeatherConfigData } from '@/lib/config';
+import type { ForecastLocation } from '@/lib/forecast';
+import { formatNumber, UnitFormatter } from '@/lib/units';
+import { conditionFromIconCode, ForecastDaypart } from '@/lib/weathercom';
+import { WeatherConditionIcon } from './WeatherConditionIcon';
+
+interface ForecastPanelProps {
+  config: WeatherConfigData;
+  stationId: string;
+  location: ForecastLocation | null;
+  units: UnitFormatter;
+  className?: string;
+}
+
+const HOURS_SHOWN = 24;
+
+const DaypartRow = ({ part, units }: { part: ForecastDaypart; units: UnitFormatter }) => (
+  <div className="flex items-start space-x-3 rounded-md bg-background/40 p-2">
+    <WeatherConditionIcon condition={conditionFromIconCode(part.iconCode)} className="w-5 h-5 mt-0.5 shrink-0" />
+    <div className="min-w-0 space-y-0.5">
+      <div className="flex flex-wrap items-center gap-x-2 text-sm">
+        <span className="font-medium">{part.name}</span>
+        <span className="text-muted-foreground">
+          {units.temperature(part.temperature)}{units.labels.temperature}
+        </span>
+        <span className="flex items-center text-xs text-weather-humidity">
+          <Droplets className="w-3 h-3 mr-0.5" />
+          {formatNumber(part.precipChance)}%
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">{part.narrative || part.phrase}</p>
+    </div>
+  </div>
+);
+
+export const ForecastPanel = ({ config, stationId, location, units, className = '' }: ForecastPanelProps) => {
+  const { data: forecast, isPending, error } = useWeatherComForecast({ config, stationId }, location);
+
+  if (!location || !getProviderCredentials(config, 'weathercom').apiKey) return null;
+
+  return (
+    <Card className={`bg-card-gradient border-0 shadow-card ${className}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <Sunrise className="w-4 h-4 text-primary" />
+            <span>Forecast</span>
+          </CardTitle>
+          <Badge variant="secondary">Weather.com</Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-muted-foreground">Forecast unavailable: {error.message}</p>
+        ) : isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <Tabs defaultValue="days">
+            <TabsList className="mb-3">
+              <TabsTrigger value="days">5 Days</TabsTrigger>
+              <TabsTrigger value="hours">Hourly</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="days" className="space-y-3">
+              {forecast.daily.map((day) => (
+                <div key={day.date} className="space-y-2 border-b border-border/20 pb-3 last:border-0 last:pb-0">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{day.dayOfWeek}</span>
+                    <span className="text-sm">
+                      <span className="font-semibold">
+                        {units.temperature(day.tempMax)}{units.labels.temperature}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {' '}/ {units.temperature(day.tempMin)}{units.labels.temperature}
+                      </span>
+                    </span>
+                  </div>
+                  {day.narrative && <p className="text-sm text-muted-foreground">{day.narrative}</p>}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {day.day && <DaypartRow part={day.day} units={units} />}
+                    {day.night && <DaypartRow part={day.night} units={units} />}
+                  </div>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="hours">
+              <div className="flex space-x-1 overflow-x-auto pb-2">
+                {forecast.hourly.slice(0, HOURS_SHOWN).map((hour) => (
+                  <div
+                    key={hour.time}
+                    title={hour.phrase}
+                    className="flex min-w-14 flex-col items-center space-y-1 rounded-md p-2 text-center"
+                  >
+                    <span className="text-xs text-muted-foreground">{hour.time.slice(11, 16)}</span>
+                    <WeatherConditionIcon condition={conditionFromIconCode(hour.iconCode)} className="w-5 h-5" />
+                    <span className="text-sm font-semibold">{units.temperature(hour.temp)}°</span>
+                    <span className="text-xs text-weather-humidity">{formatNumber(hour.precipChance)}%</span>
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,69 @@
+import { format, isToday } from 'date-fns';
+import { CalendarDays } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useForecast } from '@/hooks/use-forecast';
+import { describeWeatherCode, ForecastLocation } from '@/lib/forecast';
+import { parseLocalDate } from '@/lib/pws';
+import { formatNumber, UnitFormatter } from '@/lib/units';
+import { WeatherConditionIcon } from './WeatherConditionIcon';
+
+interface ForecastStripProps {
+  location: ForecastLocation | null;
+  units: UnitFormatter;
+  className?: string;
+}
+
+const FORECAST_DAYS = 7;
+
+export const ForecastStrip = ({ location, units, className = '' }: ForecastStripProps) => {
+  const { data: forecast, isPending, error } = useForecast(location);
+
+  if (!location) return null;
+
+  return (
+    <Card className={`bg-card-gradient border-0 shadow-card ${className}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <CalendarDays className="w-4 h-4 text-primary" />
+          <span>7-Day Forecast</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-muted-foreground">Forecast unavailable: {error.message}</p>
+        ) : (
+          <div className="grid grid-cols-7 gap-1 md:gap-2 overflow-x-auto">
+            {isPending
+              ? Array.from({ length: FORECAST_DAYS }, (_, index) => <Skeleton key={index} className="h-28 min-w-12" />)
+              : forecast.daily.slice(0, FORECAST_DAYS).map((day) => {
+                  const date = parseLocalDate(day.date);
+                  const { label, condition } = describeWeatherCode(day.weatherCode);
+                  return (
+                    <div
+                      key={day.date}
+                      title={label}
+                      className="flex min-w-12 flex-col items-center space-y-1 rounded-md p-2 text-center"
+                    >
+                      <span className="text-xs font-medium text-muted-foreground">
+                        {isToday(date) ? 'Today' : format(date, 'EEE')}
+                      </span>
+                      <WeatherConditionIcon condition={condition} />
+                      <span className="text-sm font-semibold">
+                        {units.temperature(day.tempMax)}°
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {units.temperature(day.tempMin)}°
+                      </span>
+                      <span className="text-xs text-weather-humidity">
+                        {formatNumber(day.precipProbability)}%
+                      </span>
+                    </div>
+                  );
+                })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,154 @@
+import { FormEvent, useState } from 'react';
+import { Crosshair, MapPin, RefreshCw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { StationSearch, useNearbyStations } from '@/hooks/use-station-search';
+import { formatNumber } from '@/lib/units';
+import type { NearbyStation } from '@/lib/weathercom';
+
+interface NearbyStationsProps {
+  apiKey: string;
+  // Distances follow the user's unit preset
+  useMiles: boolean;
+  onSelect: (station: NearbyStation) => void;
+}
+
+export const NearbyStations = ({ apiKey, useMiles, onSelect }: NearbyStationsProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState<StationSearch | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const { data, error, isFetching } = useNearbyStations(apiKey, search);
+  const { toast } = useToast();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) setSearch({ query: query.trim() });
+  };
+
+  const handleLocate = () => {
+    if (!('geolocation' in navigator)) {
+      toast({
+        title: "Location Unavailable",
+        description: "This browser cannot share your location; type a postcode or coordinates instead",
+        variant: "destructive",
+        duration: 5000,
+      });
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setIsLocating(false);
+        setSearch({ location: { lat: coords.latitude, lon: coords.longitude } });
+      },
+      (geoError) => {
+        setIsLocating(false);
+        toast({
+          title: "Location Unavailable",
+          description: geoError.message || "Your location could not be determined",
+          variant: "destructive",
+          duration: 5000,
+        });
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
+  const handleSelect = (station: NearbyStation) => {
+    onSelect(station);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <MapPin className="w-4 h-4 mr-2" />
+          Find Nearby
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Find Stations Near You</DialogTitle>
+          <DialogDescription>
+            Personal weather stations reporting to Weather.com around a location
+          </DialogDescription>
+        </DialogHeader>
+
+        {!apiKey ? (
+          <p className="text-sm text-muted-foreground">
+            Enter your Weather.com API key first; the search runs against your account.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <Button type="button" variant="outline" className="w-full" onClick={handleLocate} disabled={isLocating}>
+              {isLocating ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-weather-rotate" />
+              ) : (
+                <Crosshair className="w-4 h-4 mr-2" />
+              )}
+              Use My Location
+            </Button>
+            <form onSubmit={handleSubmit} className="flex space-x-2">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Postcode, place or lat, lon"
+                aria-label="Search location"
+              />
+              <Button type="submit" size="icon" aria-label="Search" disabled={!query.trim()}>
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+
+            {isFetching ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">
+                <RefreshCw className="w-6 h-6 text-primary animate-weather-rotate mx-auto mb-2" />
+                Searching...
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{error.message}</p>
+            ) : data ? (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {data.stations.length} stations near {data.origin.name}
+                </p>
+                <ScrollArea className="h-64 rounded-md border border-border/50">
+                  {data.stations.map((station) => (
+                    <button
+                      key={station.id}
+                      type="button"
+                      onClick={() => handleSelect(station)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-left hover:bg-muted/50 focus-visible:bg-muted/50 focus-visible:outline-none"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-mono text-sm font-semibold">{station.id}</div>
+                        <div className="truncate text-xs text-muted-foreground">{station.name}</div>
+                      </div>
+                      <span className="shrink-0 pl-3 text-sm text-muted-foreground">
+                        {useMiles
+                          ? `${formatNumber(station.distanceMi, 1)} mi`
+                          : `${formatNumber(station.distanceKm, 1)} km`}
+                      </span>
+                    </button>
+                  ))}
+                </ScrollArea>
+              </div>
+            ) : null}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,258 @@
+import { useMemo, useState } from 'react';
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertCircle,
+  Columns3,
+  Plus,
+  X
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useCurrentObservations } from '@/hooks/use-weather-queries';
+import { getStationLabel, WeatherConfigData } from '@/lib/config';
+import { COMPARISON_METRICS, getDelta, getMetricRange } from '@/lib/comparison';
+import {
+  convertMetric,
+  createUnitFormatter,
+  formatNumber,
+  getMetricDecimals,
+  getMetricUnit
+} from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+interface StationComparisonProps {
+  config: WeatherConfigData;
+  stationIds: string[];
+  referenceId: string;
+  onStationsChange: (stationIds: string[]) => void;
+  onReferenceChange: (stationId: string) => void;
+  onBackClick: () => void;
+}
+
+export const StationComparison = ({
+  config,
+  stationIds,
+  referenceId,
+  onStationsChange,
+  onReferenceChange,
+  onBackClick
+}: StationComparisonProps) => {
+  const [newStationId, setNewStationId] = useState('');
+  const results = useCurrentObservations(config, stationIds);
+  const units = useMemo(() => createUnitFormatter(config.units), [config.units]);
+  const isFetching = results.some((result) => result.isFetching);
+  const referenceIndex = Math.max(stationIds.indexOf(referenceId), 0);
+  const reference = results[referenceIndex]?.data;
+
+  const getLabel = (stationId: string) => {
+    const station = config.stations.find((entry) => entry.id === stationId);
+    return station ? getStationLabel(station) : stationId;
+  };
+
+  const handleRefresh = () => {
+    results.forEach((result) => result.refetch());
+  };
+
+  const handleAddStation = () => {
+    const stationId = newStationId.trim();
+    if (stationId && !stationIds.includes(stationId)) {
+      onStationsChange([...stationIds, stationId]);
+    }
+    setNewStationId('');
+  };
+
+  const formatDelta = (value: number | null, decimals: number) => {
+    if (value === null) return null;
+    const rounded = Number(value.toFixed(decimals));
+    return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${Math.abs(rounded).toFixed(decimals)}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-sky-gradient">
+      <div className="container mx-auto px-4 py-4 max-w-6xl">
+        {/* Header */}
+        <div className="mb-6">
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Columns3 className="w-6 h-6 md:w-8 md:h-8 text-primary" />
+                  <div>
+                    <CardTitle className="text-xl md:text-3xl font-bold text-foreground">
+                      Station Comparison
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {stationIds.length} stations • deltas against {getLabel(stationIds[referenceIndex] ?? '')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRefresh}
+                    disabled={isFetching}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-weather-rotate' : ''}`} />
+                    <span className="hidden sm:inline ml-2">Refresh</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onBackClick}
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span className="hidden sm:inline ml-2">Back</span>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        </div>
+
+        {/* Controls */}
+        <div className="mb-6">
+          <Card className="bg-card-gradient border-0 shadow-card">
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-muted-foreground whitespace-nowrap">Reference</span>
+                <Select value={stationIds[referenceIndex]} onValueChange={onReferenceChange}>
+                  <SelectTrigger className="h-9 w-44" aria-label="Reference station">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stationIds.map((stationId) => (
+                      <SelectItem key={stationId} value={stationId}>
+                        {getLabel(stationId)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2 md:ml-auto">
+                <Input
+                  type="text"
+                  placeholder="Add station ID"
+                  aria-label="Add station ID"
+                  value={newStationId}
+                  onChange={(e) => setNewStationId(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddStation()}
+                  className="h-9 w-44"
+                />
+                <Button variant="outline" size="sm" onClick={handleAddStation} disabled={!newStationId.trim()}>
+                  <Plus className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-2">Add</span>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Comparison Grid */}
+        <Card className="bg-card-gradient border-0 shadow-weather">
+          <CardContent className="p-2 md:p-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric</TableHead>
+                  {stationIds.map((stationId, index) => (
+                    <TableHead key={stationId} className="text-right">
+                      <div className="flex items-center justify-end space-x-1">
+                        <span className={cn(index === referenceIndex && 'text-primary font-semibold')}>
+                          {getLabel(stationId)}
+                        </span>
+                        {stationIds.length > 2 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            aria-label={`Remove ${stationId}`}
+                            onClick={() => onStationsChange(stationIds.filter((id) => id !== stationId))}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                      {results[index]?.isPending && (
+                        <div className="text-xs font-normal">Loading…</div>
+                      )}
+                      {results[index]?.error && (
+                        <div className="flex items-center justify-end space-x-1 text-xs font-normal text-destructive">
+                          <AlertCircle className="h-3 w-3" />
+                          <span>{results[index].error.message}</span>
+                        </div>
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARISON_METRICS.map((metric) => {
+                  const values = results.map((result) =>
+                    result.data ? convertMetric(metric, metric.read(result.data), units) : null
+                  );
+                  const range = getMetricRange(values);
+                  const referenceValue = reference ? convertMetric(metric, metric.read(reference), units) : null;
+                  const decimals = getMetricDecimals(metric, units);
+
+                  return (
+                    <TableRow key={metric.key}>
+                      <TableCell className="font-medium">
+                        {metric.label}
+                        <span className="text-muted-foreground ml-1">({getMetricUnit(metric, units)})</span>
+                      </TableCell>
+                      {values.map((value, index) => {
+                        const delta = index === referenceIndex ? null : getDelta(value, referenceValue);
+                        return (
+                          <TableCell
+                            key={stationIds[index]}
+                            className={cn(
+                              'text-right tabular-nums',
+                              value !== null && value === range.max && 'text-weather-temperature-warm font-semibold',
+                              value !== null && value === range.min && 'text-weather-temperature-cool font-semibold'
+                            )}
+                          >
+                            <div>{formatNumber(value, decimals)}</div>
+                            {delta !== null && (
+                              <div className="text-xs text-muted-foreground font-normal">
+                                {formatDelta(delta, decimals)}
+                              </div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Footer */}
+        <div className="mt-8 text-center text-muted-foreground">
+          <p className="text-xs md:text-sm">
+            Highest value per metric in warm, lowest in cool • Deltas relative to the reference station
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
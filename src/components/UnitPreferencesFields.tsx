@@ -0,0 +1,77 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  getUnitPreset,
+  IMPERIAL_UNITS,
+  METRIC_UNITS,
+  PRESSURE_UNITS,
+  RAIN_UNITS,
+  TEMPERATURE_UNITS,
+  UnitPreferences,
+  WIND_UNITS
+} from '@/lib/units';
+
+interface UnitPreferencesFieldsProps {
+  value: UnitPreferences;
+  onChange: (value: UnitPreferences) => void;
+}
+
+const UNIT_FIELDS: { key: keyof UnitPreferences; label: string; options: Record<string, string> }[] = [
+  { key: 'temperature', label: 'Temperature', options: TEMPERATURE_UNITS },
+  { key: 'wind', label: 'Wind', options: { ...WIND_UNITS, bft: 'Beaufort' } },
+  { key: 'pressure', label: 'Pressure', options: PRESSURE_UNITS },
+  { key: 'rain', label: 'Rain', options: RAIN_UNITS }
+];
+
+export const UnitPreferencesFields = ({ value, onChange }: UnitPreferencesFieldsProps) => {
+  const preset = getUnitPreset(value);
+
+  const handlePresetChange = (next: string) => {
+    if (next === 'metric') onChange(METRIC_UNITS);
+    if (next === 'imperial') onChange(IMPERIAL_UNITS);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Units</Label>
+        <ToggleGroup type="single" size="sm" value={preset} onValueChange={handlePresetChange}>
+          <ToggleGroupItem value="metric">Metric</ToggleGroupItem>
+          <ToggleGroupItem value="imperial">Imperial</ToggleGroupItem>
+          <ToggleGroupItem value="mixed" disabled={preset !== 'mixed'}>Mixed</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {UNIT_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`unit-${field.key}`} className="text-xs text-muted-foreground">
+              {field.label}
+            </Label>
+            <Select
+              value={value[field.key]}
+              onValueChange={(unit) => onChange({ ...value, [field.key]: unit })}
+            >
+              <SelectTrigger id={`unit-${field.key}`} className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(field.options).map(([unit, label]) => (
+                  <SelectItem key={unit} value={unit}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
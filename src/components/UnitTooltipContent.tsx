@@ -0,0 +1,30 @@
+import { ComponentProps } from 'react';
+import { ChartConfig, ChartTooltipContent } from '@/components/ui/chart';
+import { formatNumber } from '@/lib/units';
+
+type UnitTooltipContentProps = ComponentProps<typeof ChartTooltipContent> & {
+  config: ChartConfig;
+  unit: string;
+  decimals: number;
+};
+
+// Tooltip rows in the user's units; ranges arrive as [low, high] tuples
+export const UnitTooltipContent = ({ config, unit, decimals, ...props }: UnitTooltipContentProps) => (
+  <ChartTooltipContent
+    {...props}
+    formatter={(value, name, item) => {
+      const values = Array.isArray(value) ? value.map(Number) : [Number(value)];
+      return (
+        <div className="flex w-full items-center gap-2">
+          <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+          <div className="flex flex-1 justify-between leading-none">
+            <span className="text-muted-foreground">{config[String(name)]?.label ?? name}</span>
+            <span className="font-mono font-medium tabular-nums text-foreground ml-2">
+              {values.map((v) => formatNumber(v, decimals)).join(' – ')} {unit}
+            </span>
+          </div>
+        </div>
+      );
+    }}
+  />
+);
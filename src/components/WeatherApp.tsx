@@ -1,40 +1,84 @@
-import { useState, useEffect } from 'react';
-import { WeatherDashboard } from './WeatherDashboard';
-import { WeatherConfig, WeatherConfigData } from './WeatherConfig';
+import { useState, useEffect, useCallback } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { getConnectionKey, unlockConfig, WeatherConfigData } from '@/lib/config';
+import { clearConfig, loadConfig, saveConfig, subscribeToConfig } from '@/lib/config-storage';
+import { weatherKeys } from '@/hooks/use-weather-queries';
+import { WeatherAppContext } from '@/hooks/use-weather-app';
+import { useObservationArchive } from '@/hooks/use-observation-archive';
+import { WeatherUnlock } from './WeatherUnlock';
 
 export const WeatherApp = () => {
   const [config, setConfig] = useState<WeatherConfigData | null>(null);
-  const [showConfig, setShowConfig] = useState(false);
+  // A saved config whose credentials still need the passphrase
+  const [lockedConfig, setLockedConfig] = useState<WeatherConfigData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  useObservationArchive();
 
   // Load saved configuration on startup
   useEffect(() => {
-    const savedConfig = localStorage.getItem('weatherConfig');
-    if (savedConfig) {
-      try {
-        const parsedConfig = JSON.parse(savedConfig);
-        setConfig(parsedConfig);
-        setShowConfig(false);
-      } catch (error) {
-        console.error('Failed to parse saved config:', error);
-        localStorage.removeItem('weatherConfig');
-        setShowConfig(true);
-      }
+    const savedConfig = loadConfig();
+    if (savedConfig?.encryption) {
+      setLockedConfig(savedConfig);
     } else {
-      setShowConfig(true);
+      setConfig(savedConfig);
     }
     setIsLoading(false);
   }, []);
 
-  const handleConfigSave = (newConfig: WeatherConfigData) => {
+  const handleConfigSave = useCallback((newConfig: WeatherConfigData) => {
+    // Cached station data may have been fetched with other credentials or providers
+    if (getConnectionKey(newConfig) !== (config && getConnectionKey(config))) {
+      queryClient.removeQueries({ queryKey: weatherKeys.all });
+    }
     setConfig(newConfig);
-    setShowConfig(false);
+  }, [config, queryClient]);
+
+  // Tabs using the remembered configuration follow changes made in other tabs.
+  // Each tab keeps the station it shows, or two tabs on different stations
+  // would keep saving their own choice over each other.
+  useEffect(() => subscribeToConfig((savedConfig) => {
+    if (!savedConfig) {
+      if (config?.rememberMe || lockedConfig) {
+        setConfig(null);
+        setLockedConfig(null);
+      }
+      return;
+    }
+    const activeStationId = config && savedConfig.stations.some((station) => station.id === config.activeStationId)
+      ? config.activeStationId
+      : savedConfig.activeStationId;
+    if (!savedConfig.encryption) {
+      setLockedConfig(null);
+      handleConfigSave({ ...savedConfig, activeStationId });
+    } else if (config?.encryption && JSON.stringify(config.encryption) === JSON.stringify(savedConfig.encryption)) {
+      // Same ciphertext, so the credentials this tab unlocked are still current
+      handleConfigSave({ ...savedConfig, activeStationId, credentials: config.credentials });
+    } else {
+      setLockedConfig(savedConfig);
+    }
+  }), [config, lockedConfig, handleConfigSave]);
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!lockedConfig) return;
+    handleConfigSave(await unlockConfig(lockedConfig, passphrase));
+    setLockedConfig(null);
   };
 
-  const handleSettingsClick = () => {
-    setShowConfig(true);
+  const handleReset = () => {
+    clearConfig();
+    setLockedConfig(null);
   };
 
+  const handleStationChange = useCallback((stationId: string) => {
+    if (!config || config.activeStationId === stationId) return;
+    const newConfig = { ...config, activeStationId: stationId };
+    saveConfig(newConfig);
+    setConfig(newConfig);
+  }, [config]);
+
   // Show loading state while checking for saved config
   if (isLoading) {
     return (
@@ -47,21 +91,20 @@ export const WeatherApp = () => {
     );
   }
 
-  // Show configuration if no config exists or user requested settings
-  if (showConfig || !config) {
-    return (
-      <WeatherConfig
-        onConfigSave={handleConfigSave}
-        initialConfig={config || undefined}
-      />
-    );
+  if (lockedConfig) {
+    return <WeatherUnlock onUnlock={handleUnlock} onReset={handleReset} />;
   }
 
-  // Show weather dashboard with saved config
-  return (
-    <WeatherDashboard
-      config={config}
-      onSettingsClick={handleSettingsClick}
-    />
-  );
-};
\ No newline at end of file
+  // Every view except settings needs credentials
+  if (!config && location.pathname !== '/settings') {
+    return <Navigate to="/settings" replace />;
+  }
+
+  const context: WeatherAppContext = {
+    config,
+    onConfigSave: handleConfigSave,
+    onStationChange: handleStationChange
+  };
+
+  return <Outlet context={context} />;
+};
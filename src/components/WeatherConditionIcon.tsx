@@ -0,0 +1,33 @@
+import {
+  Cloud,
+  CloudDrizzle,
+  CloudFog,
+  CloudLightning,
+  CloudRain,
+  CloudSnow,
+  CloudSun,
+  LucideIcon,
+  Sun
+} from 'lucide-react';
+import type { WeatherCondition } from '@/lib/forecast';
+
+interface WeatherConditionIconProps {
+  condition: WeatherCondition;
+  className?: string;
+}
+
+const CONDITION_ICONS: Record<WeatherCondition, { icon: LucideIcon; color: string }> = {
+  clear: { icon: Sun, color: 'text-weather-uv' },
+  partlyCloudy: { icon: CloudSun, color: 'text-weather-uv' },
+  cloudy: { icon: Cloud, color: 'text-muted-foreground' },
+  fog: { icon: CloudFog, color: 'text-muted-foreground' },
+  drizzle: { icon: CloudDrizzle, color: 'text-weather-humidity' },
+  rain: { icon: CloudRain, color: 'text-weather-humidity' },
+  snow: { icon: CloudSnow, color: 'text-primary' },
+  thunderstorm: { icon: CloudLightning, color: 'text-weather-pressure' }
+};
+
+export const WeatherConditionIcon = ({ condition, className = 'w-6 h-6' }: WeatherConditionIconProps) => {
+  const { icon: Icon, color } = CONDITION_ICONS[condition];
+  return <Icon className={`${className} ${color}`} />;
+};
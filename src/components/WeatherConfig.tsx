@@ -4,56 +4,254 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Settings, Save, Eye, EyeOff } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Settings,
+  Save,
+  Eye,
+  EyeOff,
+  Plus,
+  Trash2,
+  PlugZap,
+  RefreshCw,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-export interface WeatherConfigData {
-  apiKey: string;
-  stationId: string;
-  rememberMe: boolean;
-}
+import { CredentialStore, StationEntry, WeatherConfigData } from '@/lib/config';
+import { applySharedConfig, SharedConfig } from '@/lib/config-share';
+import { saveConfig } from '@/lib/config-storage';
+import { ConnectionResult, isHardFailure, testStationConnection } from '@/lib/connection';
+import { DEFAULT_PROVIDER, getProvider, PROVIDERS, ProviderId } from '@/lib/providers';
+import { createUnitFormatter, getUnitPreset, METRIC_UNITS, UnitFormatter } from '@/lib/units';
+import { encryptCredentials, isVaultSupported, MIN_PASSPHRASE_LENGTH } from '@/lib/vault';
+import type { NearbyStation } from '@/lib/weathercom';
+import { ConfigShare } from './ConfigShare';
+import { NearbyStations } from './NearbyStations';
+import { UnitPreferencesFields } from './UnitPreferencesFields';
 
 interface WeatherConfigProps {
   onConfigSave: (config: WeatherConfigData) => void;
   initialConfig?: WeatherConfigData;
 }
 
+const createStation = (provider: ProviderId = DEFAULT_PROVIDER): StationEntry => ({ id: '', name: '', provider });
+
+// Test results stay valid until the station or its provider's credentials change
+const getConnectionKey = (station: StationEntry) => `${station.provider}:${station.id.trim().toUpperCase()}`;
+
+const ConnectionPreview = ({ result, units }: { result: ConnectionResult; units: UnitFormatter }) => {
+  const { status, message, observation } = result;
+  const place = observation && [observation.neighborhood, observation.country].filter(Boolean).join(', ');
+  return (
+    <div className="flex items-start space-x-2 px-1 text-xs">
+      {status === 'ok' ? (
+        <CheckCircle2 className="w-4 h-4 shrink-0 text-primary" />
+      ) : isHardFailure(result) ? (
+        <XCircle className="w-4 h-4 shrink-0 text-destructive" />
+      ) : (
+        <AlertTriangle className="w-4 h-4 shrink-0 text-weather-uv" />
+      )}
+      <div className={isHardFailure(result) ? 'text-destructive' : 'text-muted-foreground'}>
+        {status !== 'ok' && <div>{message}</div>}
+        {observation && (
+          <div>
+            <span className="font-medium text-foreground">{place || 'Location not reported'}</span>
+            {' • '}
+            {units.temperature(observation.metric.temp)}{units.labels.temperature}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const WeatherConfig = ({ onConfigSave, initialConfig }: WeatherConfigProps) => {
   const [config, setConfig] = useState<WeatherConfigData>({
-    apiKey: initialConfig?.apiKey || '',
-    stationId: initialConfig?.stationId || '',
+    credentials: initialConfig?.credentials || {},
+    stations: initialConfig?.stations.length ? initialConfig.stations : [createStation()],
+    activeStationId: initialConfig?.activeStationId || '',
+    units: initialConfig?.units || METRIC_UNITS,
     rememberMe: initialConfig?.rememberMe || false
   });
-  const [showApiKey, setShowApiKey] = useState(false);
+  const [visibleSecrets, setVisibleSecrets] = useState<Record<string, boolean>>({});
+  const [connections, setConnections] = useState<Record<string, ConnectionResult>>({});
+  const [isTesting, setIsTesting] = useState(false);
+  const [usePassphrase, setUsePassphrase] = useState(Boolean(initialConfig?.encryption));
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const { toast } = useToast();
+  const units = createUnitFormatter(config.units);
+  const protectCredentials = config.rememberMe && usePassphrase && isVaultSupported();
 
-  const handleSave = () => {
-    if (!config.apiKey.trim()) {
+  // The saved ciphertext can be reused while the credentials it holds are unchanged
+  const canKeepEncryption = (credentials: CredentialStore) =>
+    Boolean(initialConfig?.encryption) && JSON.stringify(credentials) === JSON.stringify(initialConfig.credentials);
+
+  // Only the providers some station uses need credentials
+  const activeProviders = [...new Set(config.stations.map((station) => station.provider))];
+
+  // Returns the trimmed stations and credentials, or null after telling the user what is missing
+  const validateForm = () => {
+    const credentials: CredentialStore = {};
+    for (const providerId of activeProviders) {
+      const provider = PROVIDERS[providerId];
+      const values = config.credentials[providerId] ?? {};
+      const missing = provider.credentialFields.find((field) => !field.optional && !values[field.key]?.trim());
+      if (missing) {
+        toast({
+          title: `Missing ${missing.label}`,
+          description: `Please enter your ${provider.label} ${missing.label.toLowerCase()}`,
+          variant: "destructive"
+        });
+        return null;
+      }
+      credentials[providerId] = Object.fromEntries(
+        provider.credentialFields.map((field) => [field.key, values[field.key]?.trim() ?? ''])
+      );
+    }
+
+    const stations = config.stations
+      .map((station) => ({ ...station, id: station.id.trim(), name: station.name.trim() }))
+      .filter((station) => station.id);
+
+    if (stations.length === 0) {
       toast({
-        title: "Missing API Key",
-        description: "Please enter your Weather.com API key",
+        title: "Missing Station ID",
+        description: "Please enter your weather station ID",
         variant: "destructive"
       });
-      return;
+      return null;
     }
 
-    if (!config.stationId.trim()) {
+    const ids = stations.map((station) => station.id.toUpperCase());
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
       toast({
-        title: "Missing Station ID",
-        description: "Please enter your weather station ID",
+        title: "Duplicate Station",
+        description: `Station ${duplicate} is listed more than once`,
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    for (const station of stations) {
+      const problem = PROVIDERS[station.provider].checkStationId?.(station.id);
+      if (problem) {
+        toast({
+          title: "Station Not Reachable",
+          description: `${station.id}: ${problem}`,
+          variant: "destructive"
+        });
+        return null;
+      }
+    }
+
+    return { credentials, stations };
+  };
+
+  const runConnectionTest = async (stations: StationEntry[], credentials: CredentialStore, retest = false) => {
+    setIsTesting(true);
+    try {
+      const results = await Promise.all(
+        stations.map(async (station) => {
+          const key = getConnectionKey(station);
+          const result =
+            (!retest && connections[key]) ||
+            (await testStationConnection(getProvider(station.provider, credentials[station.provider]), station.id));
+          return [key, result] as const;
+        })
+      );
+      setConnections((prev) => ({ ...prev, ...Object.fromEntries(results) }));
+      return results.map(([, result]) => result);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleTest = async () => {
+    const form = validateForm();
+    if (!form) return;
+    const results = await runConnectionTest(form.stations, form.credentials, true);
+    const failures = results.filter((result) => result.status !== 'ok').length;
+    toast({
+      title: failures ? "Connection Problems" : "Connection OK",
+      description: failures
+        ? `${failures} of ${results.length} stations need attention`
+        : `All ${results.length} stations are reporting`,
+      variant: results.some(isHardFailure) ? "destructive" : "default",
+      duration: 3000
+    });
+  };
+
+  const handleSave = async () => {
+    const form = validateForm();
+    if (!form) return;
+    const { credentials, stations } = form;
+
+    if (protectCredentials && (passphrase || !canKeepEncryption(credentials))) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        toast({
+          title: "Passphrase Too Short",
+          description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters to protect your credentials`,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        toast({
+          title: "Passphrases Don't Match",
+          description: "Please enter the same passphrase twice",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    const results = await runConnectionTest(stations, credentials);
+    const failedIndex = results.findIndex(isHardFailure);
+    if (failedIndex !== -1) {
+      toast({
+        title: "Connection Failed",
+        description: `${stations[failedIndex].id}: ${results[failedIndex].message}`,
         variant: "destructive"
       });
       return;
     }
 
-    // Save to localStorage if remember me is checked
-    if (config.rememberMe) {
-      localStorage.setItem('weatherConfig', JSON.stringify(config));
-    } else {
-      localStorage.removeItem('weatherConfig');
+    let encryption = protectCredentials ? initialConfig?.encryption : undefined;
+    if (protectCredentials && passphrase) {
+      try {
+        encryption = await encryptCredentials(credentials, passphrase);
+      } catch (error) {
+        toast({
+          title: "Encryption Failed",
+          description: "Your credentials could not be protected in this browser; nothing was saved",
+          variant: "destructive"
+        });
+        return;
+      }
     }
 
-    onConfigSave(config);
+    const savedConfig: WeatherConfigData = {
+      ...config,
+      credentials,
+      stations,
+      activeStationId: stations.some((station) => station.id === config.activeStationId)
+        ? config.activeStationId
+        : stations[0].id,
+      encryption
+    };
+
+    saveConfig(savedConfig);
+    onConfigSave(savedConfig);
     
     toast({
       title: "Configuration Saved",
@@ -62,13 +260,75 @@ export const WeatherConfig = ({ onConfigSave, initialConfig }: WeatherConfigProp
     });
   };
 
-  const handleConfigChange = (key: keyof WeatherConfigData, value: string | boolean) => {
+  const handleConfigChange = (key: 'rememberMe', value: boolean) => {
     setConfig(prev => ({
       ...prev,
       [key]: value
     }));
   };
 
+  const handleCredentialChange = (providerId: ProviderId, key: string, value: string) => {
+    setConnections(prev =>
+      Object.fromEntries(Object.entries(prev).filter(([connectionKey]) => !connectionKey.startsWith(`${providerId}:`)))
+    );
+    setConfig(prev => ({
+      ...prev,
+      credentials: {
+        ...prev.credentials,
+        [providerId]: { ...prev.credentials[providerId], [key]: value }
+      }
+    }));
+  };
+
+  const handleStationChange = (index: number, key: keyof StationEntry, value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      stations: prev.stations.map((station, i) => (i === index ? { ...station, [key]: value } : station))
+    }));
+  };
+
+  const handleAddStation = () => {
+    setConfig(prev => ({
+      ...prev,
+      stations: [...prev.stations, createStation(prev.stations[prev.stations.length - 1]?.provider)]
+    }));
+  };
+
+  // Fills the first empty row, or adds a row for the discovered station
+  const handleNearbySelect = ({ id, name }: NearbyStation) => {
+    if (config.stations.some((station) => station.id.trim().toUpperCase() === id.toUpperCase())) {
+      toast({
+        title: "Already Added",
+        description: `Station ${id} is already in your list`,
+        duration: 3000
+      });
+      return;
+    }
+    const station: StationEntry = { id, name, provider: 'weathercom' };
+    setConfig(prev => {
+      const emptyIndex = prev.stations.findIndex((entry) => !entry.id.trim());
+      return {
+        ...prev,
+        stations: emptyIndex === -1
+          ? [...prev.stations, station]
+          : prev.stations.map((entry, i) => (i === emptyIndex ? station : entry))
+      };
+    });
+  };
+
+  // Imported setups fill the form; nothing is saved until the user saves
+  const handleImport = (shared: SharedConfig) => {
+    setConnections({});
+    setConfig(prev => applySharedConfig(prev, shared));
+  };
+
+  const handleRemoveStation = (index: number) => {
+    setConfig(prev => ({
+      ...prev,
+      stations: prev.stations.filter((_, i) => i !== index)
+    }));
+  };
+
   return (
     <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
       <Card className="w-full max-w-md bg-card-gradient border-0 shadow-weather">
@@ -86,54 +346,126 @@ export const WeatherConfig = ({ onConfigSave, initialConfig }: WeatherConfigProp
         
         <CardContent className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="stationId" className="text-sm font-medium">
-              Station ID
+            <Label className="text-sm font-medium">
+              Stations
             </Label>
-            <Input
-              id="stationId"
-              type="text"
-              placeholder="e.g., IBORLN23"
-              value={config.stationId}
-              onChange={(e) => handleConfigChange('stationId', e.target.value)}
-              className="h-12"
-            />
-            <p className="text-xs text-muted-foreground">
-              Your personal weather station identifier
-            </p>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="apiKey" className="text-sm font-medium">
-              API Key
-            </Label>
-            <div className="relative">
-              <Input
-                id="apiKey"
-                type={showApiKey ? "text" : "password"}
-                placeholder="Enter your Weather.com API key"
-                value={config.apiKey}
-                onChange={(e) => handleConfigChange('apiKey', e.target.value)}
-                className="h-12 pr-10"
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="absolute right-0 top-0 h-12 px-3 py-2 hover:bg-transparent"
-                onClick={() => setShowApiKey(!showApiKey)}
-              >
-                {showApiKey ? (
-                  <EyeOff className="h-4 w-4 text-muted-foreground" />
-                ) : (
-                  <Eye className="h-4 w-4 text-muted-foreground" />
-                )}
+            <div className="space-y-2">
+              {config.stations.map((station, index) => (
+                <div key={index} className="space-y-2 rounded-lg border border-border/50 p-2">
+                  <Select
+                    value={station.provider}
+                    onValueChange={(provider) => handleStationChange(index, 'provider', provider)}
+                  >
+                    <SelectTrigger className="h-10" aria-label="Data provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(PROVIDERS).map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      id={index === 0 ? 'stationId' : undefined}
+                      type="text"
+                      placeholder={PROVIDERS[station.provider].stationPlaceholder}
+                      aria-label={PROVIDERS[station.provider].stationLabel}
+                      value={station.id}
+                      onChange={(e) => handleStationChange(index, 'id', e.target.value)}
+                      className="h-12"
+                    />
+                    <Input
+                      type="text"
+                      placeholder="Name (e.g., Roof)"
+                      aria-label="Station name"
+                      value={station.name}
+                      onChange={(e) => handleStationChange(index, 'name', e.target.value)}
+                      className="h-12"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-12 px-3 shrink-0"
+                      onClick={() => handleRemoveStation(index)}
+                      disabled={config.stations.length === 1}
+                      aria-label="Remove station"
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                  {connections[getConnectionKey(station)] && (
+                    <ConnectionPreview result={connections[getConnectionKey(station)]} units={units} />
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={handleAddStation}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Station
               </Button>
+              <NearbyStations
+                apiKey={config.credentials.weathercom?.apiKey?.trim() ?? ''}
+                useMiles={getUnitPreset(config.units) === 'imperial'}
+                onSelect={handleNearbySelect}
+              />
             </div>
             <p className="text-xs text-muted-foreground">
-              Your Weather.com API key for data access
+              Your personal weather station identifiers
             </p>
           </div>
 
+          {activeProviders.map((providerId) =>
+            PROVIDERS[providerId].credentialFields.map((field) => {
+              const fieldId = `${providerId}-${field.key}`;
+              const hidden = field.secret && !visibleSecrets[fieldId];
+              return (
+                <div key={fieldId} className="space-y-2">
+                  <Label htmlFor={fieldId} className="text-sm font-medium">
+                    {activeProviders.length > 1 ? `${PROVIDERS[providerId].label} ${field.label}` : field.label}
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id={fieldId}
+                      type={hidden ? "password" : "text"}
+                      placeholder={field.placeholder}
+                      value={config.credentials[providerId]?.[field.key] ?? ''}
+                      onChange={(e) => handleCredentialChange(providerId, field.key, e.target.value)}
+                      className={field.secret ? "h-12 pr-10" : "h-12"}
+                    />
+                    {field.secret && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-12 px-3 py-2 hover:bg-transparent"
+                        onClick={() => setVisibleSecrets(prev => ({ ...prev, [fieldId]: !prev[fieldId] }))}
+                      >
+                        {hidden ? (
+                          <Eye className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <EyeOff className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {field.description}
+                  </p>
+                </div>
+              );
+            })
+          )}
+
+          <UnitPreferencesFields
+            value={config.units}
+            onChange={(units) => setConfig(prev => ({ ...prev, units }))}
+          />
+
           <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
             <div className="space-y-1">
               <Label htmlFor="rememberMe" className="text-sm font-medium">
@@ -150,21 +482,100 @@ export const WeatherConfig = ({ onConfigSave, initialConfig }: WeatherConfigProp
             />
           </div>
 
-          <Button 
-            onClick={handleSave}
-            className="w-full h-12 text-base font-medium"
-            size="lg"
-          >
-            <Save className="w-4 h-4 mr-2" />
-            Save Configuration
-          </Button>
+          {config.rememberMe && isVaultSupported() && (
+            <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="usePassphrase" className="text-sm font-medium">
+                    Passphrase Protection
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Encrypt saved credentials and ask for the passphrase on each visit
+                  </p>
+                </div>
+                <Switch
+                  id="usePassphrase"
+                  checked={usePassphrase}
+                  onCheckedChange={setUsePassphrase}
+                />
+              </div>
+              {usePassphrase && (
+                <div className="space-y-2">
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={
+                      initialConfig?.encryption
+                        ? "Leave blank to keep your passphrase"
+                        : `Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`
+                    }
+                    aria-label="Passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="h-12"
+                  />
+                  {passphrase && (
+                    <Input
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Confirm passphrase"
+                      aria-label="Confirm passphrase"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      className="h-12"
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    A forgotten passphrase cannot be recovered; you would need to enter your credentials again
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
 
-          <div className="text-center pt-4 space-y-2">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">
+              Share Setup
+            </Label>
+            <ConfigShare config={config} onImport={handleImport} />
             <p className="text-xs text-muted-foreground">
-              Data will be displayed in metric units (°C, km/h, etc.)
+              Copy your stations and units to another browser or send them to someone else
             </p>
+          </div>
+
+          <div className="space-y-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleTest}
+              disabled={isTesting}
+              className="w-full h-12 text-base font-medium"
+            >
+              {isTesting ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-weather-rotate" />
+              ) : (
+                <PlugZap className="w-4 h-4 mr-2" />
+              )}
+              Test Connection
+            </Button>
+            <Button 
+              onClick={handleSave}
+              disabled={isTesting}
+              className="w-full h-12 text-base font-medium"
+              size="lg"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Configuration
+            </Button>
+          </div>
+
+          <div className="text-center pt-4 space-y-2">
             <p className="text-xs text-muted-foreground">
-              Your API key is stored locally and never shared
+              {!config.rememberMe
+                ? "Your credentials are kept for this browser session only"
+                : protectCredentials
+                  ? "Your credentials are encrypted on this device and only sent to their provider"
+                  : "Your credentials are stored locally and only sent to their provider"}
             </p>
           </div>
         </CardContent>
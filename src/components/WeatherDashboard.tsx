@@ -1,143 +1,95 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { 
   Thermometer, 
   Droplets, 
   Wind, 
-  Gauge, 
-  Sun, 
-  Eye, 
   MapPin,
   RefreshCw,
   AlertCircle,
   Settings,
-  Calendar
+  Calendar,
+  Clock,
+  Columns3
 } from 'lucide-react';
-import { WeatherCard } from './WeatherCard';
-import { WeatherHistory } from './WeatherHistory';
+import { ComfortCard, FormulaLabel } from './ComfortCard';
+import { ExtraSensorsCard } from './ExtraSensorsCard';
+import { ForecastPanel } from './ForecastPanel';
+import { ForecastStrip } from './ForecastStrip';
+import { WeatherMetricsGrid } from './WeatherMetricsGrid';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { WeatherConfigData } from './WeatherConfig';
-
-interface WeatherData {
-  stationID: string;
-  obsTimeUtc: string;
-  obsTimeLocal: string;
-  neighborhood: string;
-  country: string;
-  solarRadiation: number;
-  lon: number;
-  lat: number;
-  uv: number;
-  winddir: number;
-  humidity: number;
-  imperial: {
-    temp: number;
-    heatIndex: number;
-    dewpt: number;
-    windChill: number;
-    windSpeed: number;
-    windGust: number;
-    pressure: number;
-    precipRate: number;
-    precipTotal: number;
-    elev: number;
-  };
-  metric: {
-    temp: number;
-    heatIndex: number;
-    dewpt: number;
-    windChill: number;
-    windSpeed: number;
-    windGust: number;
-    pressure: number;
-    precipRate: number;
-    precipTotal: number;
-    elev: number;
-  };
-}
-
-interface WeatherResponse {
-  observations: WeatherData[];
-}
+import { useCurrentObservation, usePrefetchCurrentObservations } from '@/hooks/use-weather-queries';
+import { getStationLabel, WeatherConfigData } from '@/lib/config';
+import { APPARENT_TEMPERATURE_METHODS, deriveMetrics } from '@/lib/derived-metrics';
+import { getForecastLocation } from '@/lib/forecast';
+import { getMissingSensors } from '@/lib/pws';
+import { snapshotFromCurrent } from '@/lib/snapshot';
+import { createUnitFormatter } from '@/lib/units';
 
 interface WeatherDashboardProps {
   config: WeatherConfigData;
+  stationId: string;
+  onStationChange: (stationId: string) => void;
+  onTodayClick: () => void;
+  onHistoryClick: () => void;
+  onCompareClick: (stationIds: string[]) => void;
   onSettingsClick: () => void;
 }
 
-export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardProps) => {
-  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const [showHistory, setShowHistory] = useState(false);
+export const WeatherDashboard = ({
+  config,
+  stationId,
+  onStationChange,
+  onTodayClick,
+  onHistoryClick,
+  onCompareClick,
+  onSettingsClick
+}: WeatherDashboardProps) => {
   const { toast } = useToast();
+  const {
+    data: weatherData,
+    error,
+    isPending,
+    isFetching,
+    dataUpdatedAt,
+    refetch
+  } = useCurrentObservation({ config, stationId });
+  usePrefetchCurrentObservations(
+    config,
+    config.stations.map((station) => station.id).filter((id) => id !== stationId)
+  );
+  const lastUpdate = dataUpdatedAt ? new Date(dataUpdatedAt) : null;
 
-  const buildApiUrl = () => {
-    const baseUrl = "https://api.weather.com/v2/pws/observations/current";
-    const params = new URLSearchParams({
-      apiKey: config.apiKey,
-      format: 'json',
-      stationId: config.stationId,
-      units: 'm' // metric units
-    });
-    return `${baseUrl}?${params.toString()}`;
-  };
-
-  const fetchWeatherData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const apiUrl = buildApiUrl();
-      const response = await fetch(apiUrl);
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your configuration.');
-        } else if (response.status === 404) {
-          throw new Error('Weather station not found. Please check your station ID.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      
-      const data: WeatherResponse = await response.json();
-      
-      if (data.observations && data.observations.length > 0) {
-        setWeatherData(data.observations[0]);
-        setLastUpdate(new Date());
-        toast({
-          title: "Weather Updated",
-          description: "Weather data refreshed successfully",
-          duration: 3000,
-        });
-      } else {
-        throw new Error('No weather data available for this station');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch weather data';
-      setError(errorMessage);
+  useEffect(() => {
+    if (error) {
       toast({
         title: "Error",
-        description: errorMessage,
+        description: error.message,
         variant: "destructive",
         duration: 5000,
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [error, toast]);
 
-  useEffect(() => {
-    fetchWeatherData();
-    
-    // Auto-refresh every 5 minutes
-    const interval = setInterval(fetchWeatherData, 5 * 60 * 1000);
-    
-    return () => clearInterval(interval);
-  }, [config.apiKey, config.stationId]);
+  const fetchWeatherData = async () => {
+    const result = await refetch();
+    if (result.isSuccess) {
+      toast({
+        title: "Weather Updated",
+        description: "Weather data refreshed successfully",
+        duration: 3000,
+      });
+    }
+  };
 
   const formatTime = (dateString: string) => {
     return new Date(dateString).toLocaleTimeString('en-US', {
@@ -146,28 +98,12 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
     });
   };
 
-  const getWindDirection = (degrees: number) => {
-    const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-    return directions[Math.round(degrees / 22.5) % 16];
-  };
-
-  const formatTemperature = (temp: number) => {
-    return Math.round(temp);
-  };
-
-  const formatPressure = (pressure: number) => {
-    return Math.round(pressure);
-  };
-
-  const formatWindSpeed = (speed: number) => {
-    return Math.round(speed);
-  };
+  const units = useMemo(() => createUnitFormatter(config.units), [config.units]);
 
-  const formatPrecipitation = (precip: number) => {
-    return precip.toFixed(1);
-  };
+  const missingSensors = weatherData ? getMissingSensors(weatherData) : [];
+  const derived = weatherData ? deriveMetrics(snapshotFromCurrent(weatherData)) : null;
 
-  if (loading && !weatherData) {
+  if (isPending) {
     return (
       <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
         <div className="text-center space-y-4">
@@ -186,7 +122,7 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
           <CardContent className="p-8 text-center space-y-4">
             <AlertCircle className="w-16 h-16 text-destructive mx-auto" />
             <h2 className="text-2xl font-semibold text-foreground">Weather Unavailable</h2>
-            <p className="text-muted-foreground text-sm">{error}</p>
+            <p className="text-muted-foreground text-sm">{error.message}</p>
             <div className="space-y-3">
               <Button onClick={fetchWeatherData} className="w-full">
                 <RefreshCw className="w-4 h-4 mr-2" />
@@ -205,16 +141,6 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
 
   if (!weatherData) return null;
 
-  // Show history component if requested
-  if (showHistory) {
-    return (
-      <WeatherHistory
-        config={config}
-        onBackClick={() => setShowHistory(false)}
-      />
-    );
-  }
-
   return (
     <div className="min-h-screen bg-sky-gradient">
       <div className="container mx-auto px-4 py-4 max-w-4xl">
@@ -227,7 +153,7 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
                   <MapPin className="w-6 h-6 md:w-8 md:h-8 text-primary" />
                   <div>
                     <CardTitle className="text-xl md:text-3xl font-bold text-foreground">
-                      {weatherData.neighborhood}
+                      {weatherData.neighborhood || weatherData.stationID}
                     </CardTitle>
                     <p className="text-sm text-muted-foreground">
                       {weatherData.stationID} • {weatherData.country}
@@ -235,23 +161,55 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
                   </div>
                 </div>
                 <div className="flex space-x-2">
+                  {config.stations.length > 1 && (
+                    <Select value={stationId} onValueChange={onStationChange}>
+                      <SelectTrigger className="h-9 w-32 sm:w-40" aria-label="Station">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {config.stations.map((station) => (
+                          <SelectItem key={station.id} value={station.id}>
+                            {getStationLabel(station)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <Button 
                     variant="outline" 
                     size="sm"
                     onClick={fetchWeatherData}
-                    disabled={loading}
+                    disabled={isFetching}
                   >
-                    <RefreshCw className={`w-4 h-4 ${loading ? 'animate-weather-rotate' : ''}`} />
+                    <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-weather-rotate' : ''}`} />
                     <span className="hidden sm:inline ml-2">Refresh</span>
                   </Button>
                   <Button 
                     variant="outline" 
                     size="sm"
-                    onClick={() => setShowHistory(true)}
+                    onClick={onTodayClick}
+                  >
+                    <Clock className="w-4 h-4" />
+                    <span className="hidden sm:inline ml-2">Today</span>
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={onHistoryClick}
                   >
                     <Calendar className="w-4 h-4" />
                     <span className="hidden sm:inline ml-2">History</span>
                   </Button>
+                  {config.stations.length > 1 && (
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => onCompareClick(config.stations.map((station) => station.id))}
+                    >
+                      <Columns3 className="w-4 h-4" />
+                      <span className="hidden sm:inline ml-2">Compare</span>
+                    </Button>
+                  )}
                   <Button 
                     variant="outline" 
                     size="sm"
@@ -266,6 +224,16 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
           </Card>
         </div>
 
+        {missingSensors.length > 0 && (
+          <Alert className="mb-6 bg-card-gradient border-0 shadow-card">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Partial data</AlertTitle>
+            <AlertDescription>
+              This station is not reporting: {missingSensors.join(', ')}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Main Temperature Card */}
         <div className="mb-6">
           <Card className="bg-temperature-gradient border-0 shadow-weather text-white">
@@ -275,10 +243,12 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
                   <Thermometer className="w-12 h-12 md:w-16 md:h-16 text-white/90" />
                   <div>
                     <div className="text-4xl md:text-6xl font-bold">
-                      {formatTemperature(weatherData.metric.temp)}°C
+                      {units.temperature(weatherData.metric.temp)}{units.labels.temperature}
                     </div>
                     <div className="text-lg md:text-xl text-white/80">
-                      Feels like {formatTemperature(weatherData.metric.heatIndex)}°C
+                      <FormulaLabel formula={APPARENT_TEMPERATURE_METHODS[derived.apparent.method].formula}>
+                        Feels like {units.temperature(derived.apparent.value)}{units.labels.temperature}
+                      </FormulaLabel>
                     </div>
                   </div>
                 </div>
@@ -294,73 +264,20 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
         </div>
 
         {/* Weather Metrics Grid */}
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-          <WeatherCard
-            title="Humidity"
-            value={weatherData.humidity}
-            unit="%"
-            icon={<Droplets className="w-5 h-5 md:w-6 md:h-6 text-weather-humidity" />}
-            delay={100}
-          />
-          
-          <WeatherCard
-            title="Wind Speed"
-            value={formatWindSpeed(weatherData.metric.windSpeed)}
-            unit="km/h"
-            icon={<Wind className="w-5 h-5 md:w-6 md:h-6 text-weather-wind" />}
-            delay={200}
-          />
-          
-          <WeatherCard
-            title="Wind Direction"
-            value={getWindDirection(weatherData.winddir)}
-            unit={`${weatherData.winddir}°`}
-            icon={<Wind className="w-5 h-5 md:w-6 md:h-6 text-weather-wind" style={{ transform: `rotate(${weatherData.winddir}deg)` }} />}
-            delay={300}
-          />
-          
-          <WeatherCard
-            title="Pressure"
-            value={formatPressure(weatherData.metric.pressure)}
-            unit="hPa"
-            icon={<Gauge className="w-5 h-5 md:w-6 md:h-6 text-weather-pressure" />}
-            delay={400}
-          />
-          
-          <WeatherCard
-            title="UV Index"
-            value={weatherData.uv}
-            icon={<Sun className="w-5 h-5 md:w-6 md:h-6 text-weather-uv" />}
-            delay={500}
-          />
-          
-          <WeatherCard
-            title="Solar Radiation"
-            value={Math.round(weatherData.solarRadiation)}
-            unit="W/m²"
-            icon={<Sun className="w-5 h-5 md:w-6 md:h-6 text-weather-uv" />}
-            delay={600}
-          />
-          
-          <WeatherCard
-            title="Dew Point"
-            value={formatTemperature(weatherData.metric.dewpt)}
-            unit="°C"
-            icon={<Droplets className="w-5 h-5 md:w-6 md:h-6 text-weather-humidity" />}
-            delay={700}
-          />
-          
-          <WeatherCard
-            title="Visibility"
-            value="16"
-            unit="km"
-            icon={<Eye className="w-5 h-5 md:w-6 md:h-6 text-primary" />}
-            delay={800}
-          />
-        </div>
+        <WeatherMetricsGrid snapshot={snapshotFromCurrent(weatherData)} units={units} className="mb-6" />
+
+        {/* Forecast */}
+        <ForecastStrip location={getForecastLocation(weatherData)} units={units} className="mb-6" />
+        <ForecastPanel
+          config={config}
+          stationId={stationId}
+          location={getForecastLocation(weatherData)}
+          units={units}
+          className="mb-6"
+        />
 
         {/* Additional Info */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <Card className="bg-card-gradient border-0 shadow-card">
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center space-x-2 text-base">
@@ -372,16 +289,18 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Wind Gust</span>
-                  <span className="text-sm font-semibold">{formatWindSpeed(weatherData.metric.windGust)} km/h</span>
+                  <span className="text-sm font-semibold">{units.wind(weatherData.metric.windGust)} {units.labels.wind}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Wind Chill</span>
-                  <span className="text-sm font-semibold">{formatTemperature(weatherData.metric.windChill)}°C</span>
+                  <span className="text-sm font-semibold">{units.temperature(weatherData.metric.windChill)}{units.labels.temperature}</span>
                 </div>
               </div>
             </CardContent>
           </Card>
           
+          <ComfortCard derived={derived} units={units} />
+
           <Card className="bg-card-gradient border-0 shadow-card">
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center space-x-2 text-base">
@@ -393,17 +312,24 @@ export const WeatherDashboard = ({ config, onSettingsClick }: WeatherDashboardPr
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Rate</span>
-                  <span className="text-sm font-semibold">{formatPrecipitation(weatherData.metric.precipRate)} mm/hr</span>
+                  <span className="text-sm font-semibold">{units.rain(weatherData.metric.precipRate)} {units.labels.rainRate}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Total</span>
-                  <span className="text-sm font-semibold">{formatPrecipitation(weatherData.metric.precipTotal)} mm</span>
+                  <span className="text-sm font-semibold">{units.rain(weatherData.metric.precipTotal)} {units.labels.rain}</span>
                 </div>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Extra Sensors */}
+        {weatherData.extras && weatherData.extras.length > 0 && (
+          <div className="mb-6">
+            <ExtraSensorsCard extras={weatherData.extras} units={units} />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="text-center text-muted-foreground">
           <p className="text-xs md:text-sm">
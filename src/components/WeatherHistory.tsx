@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { 
   ArrowLeft, 
   RefreshCw, 
@@ -9,128 +9,154 @@ import {
   Wind,
   Gauge,
   Sun,
-  CloudRain
+  CloudRain,
+  LayoutList,
+  LineChart,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  Upload
 } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Calendar as CalendarPicker } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { WeatherConfigData } from './WeatherConfig';
-
-interface DailySummary {
-  stationID: string;
-  tz: string;
-  obsTimeUtc: string;
-  obsTimeLocal: string;
-  epoch: number;
-  lat: number;
-  lon: number;
-  solarRadiationHigh: number;
-  uvHigh: number;
-  winddirAvg: number;
-  humidityHigh: number;
-  humidityLow: number;
-  humidityAvg: number;
-  qcStatus: number;
-  metric: {
-    tempHigh: number;
-    tempLow: number;
-    tempAvg: number;
-    windspeedHigh: number;
-    windspeedLow: number;
-    windspeedAvg: number;
-    windgustHigh: number;
-    windgustLow: number;
-    windgustAvg: number;
-    dewptHigh: number;
-    dewptLow: number;
-    dewptAvg: number;
-    windchillHigh: number;
-    windchillLow: number;
-    windchillAvg: number;
-    heatindexHigh: number;
-    heatindexLow: number;
-    heatindexAvg: number;
-    pressureMax: number;
-    pressureMin: number;
-    pressureTrend: number;
-    precipRate: number;
-    precipTotal: number;
-  };
-}
-
-interface HistoryResponse {
-  summaries: DailySummary[];
-}
+import { WeatherHistoryCharts } from './WeatherHistoryCharts';
+import { ExportMenu, ExportSource } from './ExportMenu';
+import { useForecast } from '@/hooks/use-forecast';
+import {
+  useCurrentObservation,
+  useDailySummaries,
+  useHistoryFetcher,
+  useHistoryRange
+} from '@/hooks/use-weather-queries';
+import { getStationLabel, WeatherConfigData } from '@/lib/config';
+import { getForecastLocation } from '@/lib/forecast';
+import {
+  canShiftForward,
+  clampHistoryRange,
+  getLastWeek,
+  getRangeDays,
+  getRangeLength,
+  HistoryRange,
+  MAX_RANGE_DAYS,
+  shiftRangeByMonth
+} from '@/lib/history-range';
+import {
+  getLocalDate,
+  getMissingSummarySensors,
+  HistoryGranularity,
+  parseLocalDate,
+  SummaryObservation,
+  toLocalDateKey
+} from '@/lib/pws';
+import { createUnitFormatter, formatNumber, getWindDirection, MISSING_VALUE } from '@/lib/units';
 
 interface WeatherHistoryProps {
   config: WeatherConfigData;
+  stationId: string;
+  // null shows the rolling 7-day summary
+  range: HistoryRange | null;
+  onRangeChange: (range: HistoryRange | null) => void;
+  onDayClick: (date: string) => void;
+  onImportClick: () => void;
   onBackClick: () => void;
 }
 
-export const WeatherHistory = ({ config, onBackClick }: WeatherHistoryProps) => {
-  const [historyData, setHistoryData] = useState<DailySummary[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const RESOLUTION_LABELS: Record<HistoryGranularity, string> = {
+  daily: 'Daily',
+  hourly: 'Hourly',
+  all: '5-min'
+};
+
+const formatRange = ({ from, to }: HistoryRange) =>
+  getRangeLength({ from, to }) === 1
+    ? format(from, 'MMM d, yyyy')
+    : `${format(from, 'MMM d')} – ${format(to, 'MMM d, yyyy')}`;
+
+const describeDay = (date: string) => {
+  const daysAgo = differenceInCalendarDays(new Date(), parseLocalDate(date));
+  return daysAgo === 0 ? 'Today' : daysAgo === 1 ? 'Yesterday' : `${daysAgo} days ago`;
+};
+
+export const WeatherHistory = ({
+  config,
+  stationId,
+  range,
+  onRangeChange,
+  onDayClick,
+  onImportClick,
+  onBackClick
+}: WeatherHistoryProps) => {
+  const [view, setView] = useState('cards');
+  const [resolution, setResolution] = useState<HistoryGranularity>('daily');
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
   const { toast } = useToast();
+  const stationConfig = { config, stationId };
+  const week = useDailySummaries(stationConfig, { enabled: !range });
+  const rangeDays = useMemo(() => (range ? getRangeDays(range, 'daily') : []), [range]);
+  const ranged = useHistoryRange(stationConfig, rangeDays, 'daily');
+  const { data: summaries, error, isPending, isFetching, refetch } = range ? ranged : week;
 
-  const buildHistoryApiUrl = () => {
-    const baseUrl = "https://api.weather.com/v2/pws/dailysummary/7day";
-    const params = new URLSearchParams({
-      apiKey: config.apiKey,
-      format: 'json',
-      stationId: config.stationId,
-      units: 'm'
-    });
-    return `${baseUrl}?${params.toString()}`;
-  };
+  // Finer resolutions are only fetched once the charts ask for them
+  const detailRange = useMemo(() => range ?? getLastWeek(), [range]);
+  const detailDays = useMemo(
+    () => (view === 'charts' && resolution !== 'daily' ? getRangeDays(detailRange, resolution) : []),
+    [view, resolution, detailRange]
+  );
+  const detail = useHistoryRange(stationConfig, detailDays, resolution);
+  const detailTrimmed = resolution !== 'daily' && getRangeLength(detailRange) > MAX_RANGE_DAYS[resolution];
+  const fetchHistory = useHistoryFetcher(stationConfig);
+  const chartSummaries = resolution === 'daily' ? summaries : detail.data;
 
-  const fetchHistoryData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const apiUrl = buildHistoryApiUrl();
-      const response = await fetch(apiUrl);
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your configuration.');
-        } else if (response.status === 404) {
-          throw new Error('Weather station not found. Please check your station ID.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      
-      const data: HistoryResponse = await response.json();
-      
-      if (data.summaries && data.summaries.length > 0) {
-        setHistoryData(data.summaries.reverse()); // Show most recent first
-        toast({
-          title: "History Updated",
-          description: "Weather history loaded successfully",
-          duration: 3000,
-        });
-      } else {
-        throw new Error('No historical data available for this station');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch weather history';
-      setError(errorMessage);
+  // The forecast covers the days the charts show, at the station's coordinates
+  const { data: current } = useCurrentObservation(stationConfig);
+  const forecastRange = useMemo(
+    () =>
+      chartSummaries && chartSummaries.length > 0
+        ? { from: getLocalDate(chartSummaries[0]), to: getLocalDate(chartSummaries[chartSummaries.length - 1]) }
+        : undefined,
+    [chartSummaries]
+  );
+  const forecastLocation = getForecastLocation(current);
+  const forecast = useForecast(
+    view === 'charts' && showForecast && forecastRange ? forecastLocation : null,
+    forecastRange
+  );
+  const shownForecast = showForecast ? forecast.data : undefined;
+  // Show most recent first
+  const historyData = useMemo(() => (summaries ? [...summaries].reverse() : []), [summaries]);
+
+  const shownError = error ?? detail.error;
+
+  useEffect(() => {
+    if (shownError) {
       toast({
         title: "Error",
-        description: errorMessage,
+        description: shownError.message,
         variant: "destructive",
         duration: 5000,
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [shownError, toast]);
 
-  useEffect(() => {
-    fetchHistoryData();
-  }, [config.apiKey, config.stationId]);
+  const fetchHistoryData = async () => {
+    const result = await refetch();
+    if (result.isSuccess) {
+      toast({
+        title: "History Updated",
+        description: "Weather history loaded successfully",
+        duration: 3000,
+      });
+    }
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -141,36 +167,55 @@ export const WeatherHistory = ({ config, onBackClick }: WeatherHistoryProps) =>
     });
   };
 
-  const formatTemp = (temp: number) => Math.round(temp);
-  const formatPressure = (pressure: number) => Math.round(pressure);
-  const formatWind = (speed: number) => Math.round(speed);
-  const formatPrecip = (precip: number) => precip.toFixed(1);
+  const units = useMemo(() => createUnitFormatter(config.units), [config.units]);
 
-  const getWindDirection = (degrees: number) => {
-    const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-    return directions[Math.round(degrees / 22.5) % 16];
+  const station = config.stations.find((entry) => entry.id === stationId);
+  const exportSource = (
+    granularity: HistoryGranularity,
+    label: string,
+    load: (days: Date[]) => Promise<SummaryObservation[]>
+  ): ExportSource => {
+    const days = getRangeDays(detailRange, granularity);
+    return {
+      label,
+      metadata: {
+        stationId,
+        stationName: station ? getStationLabel(station) : stationId,
+        granularity,
+        from: toLocalDateKey(days[0]),
+        to: toLocalDateKey(days[days.length - 1])
+      },
+      load: () => load(days)
+    };
   };
+  const exportSources = [
+    exportSource('daily', 'Daily summaries', async () => summaries ?? []),
+    exportSource('hourly', 'Hourly observations', (days) => fetchHistory(days, 'hourly')),
+    exportSource('all', '5-minute observations', (days) => fetchHistory(days, 'all'))
+  ];
 
-  if (loading) {
+  if (isPending) {
     return (
       <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
         <div className="text-center space-y-4">
           <RefreshCw className="w-12 h-12 text-primary animate-weather-rotate mx-auto" />
           <h2 className="text-2xl font-semibold text-foreground">Loading Weather History...</h2>
-          <p className="text-muted-foreground">Fetching 7-day summary data</p>
+          <p className="text-muted-foreground">
+            {range ? `Fetching ${rangeDays.length} days of history` : 'Fetching 7-day summary data'}
+          </p>
         </div>
       </div>
     );
   }
 
-  if (error) {
+  if (error && (!summaries || summaries.length === 0)) {
     return (
       <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
         <Card className="w-full max-w-md bg-card-gradient border-0 shadow-weather">
           <CardContent className="p-8 text-center space-y-4">
             <AlertCircle className="w-16 h-16 text-destructive mx-auto" />
             <h2 className="text-2xl font-semibold text-foreground">History Unavailable</h2>
-            <p className="text-muted-foreground text-sm">{error}</p>
+            <p className="text-muted-foreground text-sm">{error.message}</p>
             <div className="space-y-3">
               <Button onClick={fetchHistoryData} className="w-full">
                 <RefreshCw className="w-4 h-4 mr-2" />
@@ -202,7 +247,7 @@ export const WeatherHistory = ({ config, onBackClick }: WeatherHistoryProps) =>
                       Weather History
                     </CardTitle>
                     <p className="text-sm text-muted-foreground">
-                      7-day summary • {config.stationId}
+                      {range ? formatRange(range) : '7-day summary'} • {stationId}
                     </p>
                   </div>
                 </div>
@@ -211,9 +256,9 @@ export const WeatherHistory = ({ config, onBackClick }: WeatherHistoryProps) =>
                     variant="outline" 
                     size="sm"
                     onClick={fetchHistoryData}
-                    disabled={loading}
+                    disabled={isFetching}
                   >
-                    <RefreshCw className={`w-4 h-4 ${loading ? 'animate-weather-rotate' : ''}`} />
+                    <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-weather-rotate' : ''}`} />
                     <span className="hidden sm:inline ml-2">Refresh</span>
                   </Button>
                   <Button 
@@ -230,116 +275,257 @@ export const WeatherHistory = ({ config, onBackClick }: WeatherHistoryProps) =>
           </Card>
         </div>
 
-        {/* History Cards */}
-        <div className="space-y-4">
-          {historyData.map((day, index) => (
-            <Card key={day.epoch} className="bg-card-gradient border-0 shadow-weather">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <Calendar className="w-5 h-5 text-primary" />
-                    <div>
-                      <CardTitle className="text-lg font-semibold">
-                        {formatDate(day.obsTimeLocal)}
-                      </CardTitle>
-                      <p className="text-sm text-muted-foreground">
-                        {index === 0 ? 'Today' : index === 1 ? 'Yesterday' : `${index} days ago`}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="flex items-center space-x-2">
-                      <ThermometerSun className="w-4 h-4 text-weather-temp" />
-                      <span className="text-lg font-bold text-foreground">
-                        {formatTemp(day.metric.tempHigh)}°C
-                      </span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      Low: {formatTemp(day.metric.tempLow)}°C
-                    </div>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <Droplets className="w-4 h-4 text-weather-humidity" />
-                      <span className="text-sm font-medium">Humidity</span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      {day.humidityHigh}% / {day.humidityLow}%
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      Avg: {day.humidityAvg}%
+        {/* Date Range */}
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Previous month"
+            onClick={() => onRangeChange(shiftRangeByMonth(range ?? getLastWeek(), -1))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CalendarRange className="w-4 h-4 mr-2" />
+                {range ? formatRange(range) : 'Last 7 days'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <CalendarPicker
+                mode="range"
+                numberOfMonths={2}
+                defaultMonth={(range ?? getLastWeek()).from}
+                selected={range ?? undefined}
+                onSelect={(selected) => selected?.from && onRangeChange(clampHistoryRange(selected.from, selected.to))}
+                disabled={{ after: new Date() }}
+              />
+              <p className="px-3 pb-3 text-xs text-muted-foreground">
+                Up to {MAX_RANGE_DAYS.daily} days at a time
+              </p>
+            </PopoverContent>
+          </Popover>
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Next month"
+            onClick={() => range && onRangeChange(shiftRangeByMonth(range, 1))}
+            disabled={!range || !canShiftForward(range)}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {range && (
+            <Button variant="ghost" size="sm" onClick={() => onRangeChange(null)}>
+              Last 7 days
+            </Button>
+          )}
+          <div className="ml-auto flex space-x-2">
+            <Button variant="outline" size="sm" onClick={onImportClick}>
+              <Upload className="w-4 h-4" />
+              <span className="hidden sm:inline ml-2">Import</span>
+            </Button>
+            <ExportMenu sources={exportSources} units={units} />
+          </div>
+        </div>
+
+        {range && summaries.length === 0 && (
+          <Card className="mb-4 bg-card-gradient border-0 shadow-weather">
+            <CardContent className="p-6 text-center text-sm text-muted-foreground">
+              No data was uploaded by {stationId} in this range
+            </CardContent>
+          </Card>
+        )}
+
+        <Tabs value={view} onValueChange={setView}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="cards">
+              <LayoutList className="w-4 h-4 mr-2" />
+              Cards
+            </TabsTrigger>
+            <TabsTrigger value="charts">
+              <LineChart className="w-4 h-4 mr-2" />
+              Charts
+            </TabsTrigger>
+          </TabsList>
+
+          {/* History Cards */}
+          <TabsContent value="cards">
+            <div className="space-y-4">
+              {historyData.map((day) => (
+                <Card
+                  key={day.epoch}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`Hourly readings for ${formatDate(day.obsTimeLocal)}`}
+                  onClick={() => onDayClick(getLocalDate(day))}
+                  onKeyDown={(e) => e.key === 'Enter' && onDayClick(getLocalDate(day))}
+                  className="bg-card-gradient border-0 shadow-weather cursor-pointer transition-shadow hover:shadow-card focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <Calendar className="w-5 h-5 text-primary" />
+                        <div>
+                          <CardTitle className="text-lg font-semibold">
+                            {formatDate(day.obsTimeLocal)}
+                          </CardTitle>
+                          <p className="text-sm text-muted-foreground">
+                            {describeDay(getLocalDate(day))}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="flex items-center space-x-2">
+                          <ThermometerSun className="w-4 h-4 text-weather-temp" />
+                          <span className="text-lg font-bold text-foreground">
+                            {units.temperature(day.metric.tempHigh)}{units.labels.temperature}
+                          </span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          Low: {units.temperature(day.metric.tempLow)}{units.labels.temperature}
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Droplets className="w-4 h-4 text-weather-humidity" />
+                          <span className="text-sm font-medium">Humidity</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {formatNumber(day.humidityHigh)}% / {formatNumber(day.humidityLow)}%
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Avg: {formatNumber(day.humidityAvg)}%
+                        </div>
+                      </div>
                   
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <Wind className="w-4 h-4 text-weather-wind" />
-                      <span className="text-sm font-medium">Wind</span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      {formatWind(day.metric.windspeedHigh)} km/h
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {getWindDirection(day.winddirAvg)} • Avg: {formatWind(day.metric.windspeedAvg)} km/h
-                    </div>
-                  </div>
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Wind className="w-4 h-4 text-weather-wind" />
+                          <span className="text-sm font-medium">Wind</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {units.wind(day.metric.windspeedHigh)} {units.labels.wind}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {getWindDirection(day.winddirAvg)} • Avg: {units.wind(day.metric.windspeedAvg)} {units.labels.wind}
+                        </div>
+                      </div>
                   
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <Gauge className="w-4 h-4 text-weather-pressure" />
-                      <span className="text-sm font-medium">Pressure</span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      {formatPressure(day.metric.pressureMax)} hPa
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      Min: {formatPressure(day.metric.pressureMin)} hPa
-                    </div>
-                  </div>
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Gauge className="w-4 h-4 text-weather-pressure" />
+                          <span className="text-sm font-medium">Pressure</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {units.pressure(day.metric.pressureMax)} {units.labels.pressure}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Min: {units.pressure(day.metric.pressureMin)} {units.labels.pressure}
+                        </div>
+                      </div>
                   
-                  <div className="space-y-1">
-                    <div className="flex items-center space-x-2">
-                      <CloudRain className="w-4 h-4 text-weather-humidity" />
-                      <span className="text-sm font-medium">Precipitation</span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      {formatPrecip(day.metric.precipTotal)} mm
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <CloudRain className="w-4 h-4 text-weather-humidity" />
+                          <span className="text-sm font-medium">Precipitation</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {units.rain(day.metric.precipTotal)} {units.labels.rain}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Rate: {units.rain(day.metric.precipRate)} {units.labels.rainRate}
+                        </div>
+                      </div>
                     </div>
-                    <div className="text-xs text-muted-foreground">
-                      Rate: {formatPrecip(day.metric.precipRate)} mm/hr
-                    </div>
-                  </div>
-                </div>
                 
-                <div className="mt-4 pt-4 border-t border-border/20">
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-xs">
-                    <div className="flex items-center justify-between">
-                      <span className="text-muted-foreground">UV Index:</span>
-                      <span className="font-medium">{day.uvHigh}</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-muted-foreground">Solar Radiation:</span>
-                      <span className="font-medium">{Math.round(day.solarRadiationHigh)} W/m²</span>
+                    <div className="mt-4 pt-4 border-t border-border/20">
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-xs">
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">UV Index:</span>
+                          <span className="font-medium">{day.uvHigh ?? MISSING_VALUE}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">Solar Radiation:</span>
+                          <span className="font-medium">{formatNumber(day.solarRadiationHigh)} W/m²</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">Wind Gust:</span>
+                          <span className="font-medium">{units.wind(day.metric.windgustHigh)} {units.labels.wind}</span>
+                        </div>
+                      </div>
                     </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-muted-foreground">Wind Gust:</span>
-                      <span className="font-medium">{formatWind(day.metric.windgustHigh)} km/h</span>
-                    </div>
-                  </div>
+                    {getMissingSummarySensors(day).length > 0 && (
+                      <div className="mt-3 flex items-center space-x-2 text-xs text-muted-foreground">
+                        <AlertCircle className="w-3 h-3 shrink-0" />
+                        <span>Partial data • missing {getMissingSummarySensors(day).join(', ')}</span>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+
+          {/* Trend Charts */}
+          <TabsContent value="charts">
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={resolution}
+                onValueChange={(value) => value && setResolution(value as HistoryGranularity)}
+              >
+                {(Object.keys(RESOLUTION_LABELS) as HistoryGranularity[]).map((key) => (
+                  <ToggleGroupItem key={key} value={key}>
+                    {RESOLUTION_LABELS[key]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {forecastLocation && (
+                <div className="flex items-center space-x-2">
+                  <Switch id="forecastOverlay" checked={showForecast} onCheckedChange={setShowForecast} />
+                  <Label htmlFor="forecastOverlay" className="text-sm">
+                    Forecast
+                  </Label>
                 </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+              )}
+              {showForecast && forecast.error && (
+                <span className="text-xs text-muted-foreground">Forecast unavailable</span>
+              )}
+              {detailTrimmed && (
+                <span className="text-xs text-muted-foreground">
+                  Showing the last {MAX_RANGE_DAYS[resolution]} days at this resolution
+                </span>
+              )}
+            </div>
+            {resolution === 'daily' ? (
+              <WeatherHistoryCharts summaries={summaries} units={units} forecast={shownForecast} />
+            ) : detail.isPending ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <RefreshCw className="w-8 h-8 text-primary animate-weather-rotate mx-auto mb-3" />
+                Loaded {detail.loadedDays} of {detailDays.length} days...
+              </div>
+            ) : (
+              <WeatherHistoryCharts
+                summaries={detail.data}
+                units={units}
+                resolution={resolution}
+                forecast={shownForecast}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
 
         {/* Footer */}
         <div className="mt-8 text-center text-muted-foreground">
           <p className="text-xs md:text-sm">
-            Historical data from personal weather station • Daily summaries
+            Historical data from personal weather station • Select a day for hourly detail
           </p>
         </div>
       </div>
@@ -0,0 +1,241 @@
+import { ReactNode, useMemo } from 'react';
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { CloudRain, Droplets, Gauge, ThermometerSun, Wind } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip
+} from '@/components/ui/chart';
+import { UnitTooltipContent } from './UnitTooltipContent';
+import type { Forecast } from '@/lib/forecast';
+import { getLocalDate, HistoryGranularity, Reading, SummaryObservation } from '@/lib/pws';
+import {
+  convertPressure,
+  convertRain,
+  convertTemperature,
+  convertWind,
+  UnitFormatter
+} from '@/lib/units';
+
+interface WeatherHistoryChartsProps {
+  summaries: SummaryObservation[];
+  units: UnitFormatter;
+  resolution?: HistoryGranularity;
+  // Drawn over the observations when given
+  forecast?: Forecast;
+}
+
+const temperatureConfig = {
+  tempRange: { label: 'High / Low', color: 'hsl(var(--temperature-warm))' },
+  tempAvg: { label: 'Average', color: 'hsl(var(--temperature-primary))' },
+  forecastHigh: { label: 'Forecast High', color: 'hsl(var(--temperature-warm))' },
+  forecastLow: { label: 'Forecast Low', color: 'hsl(var(--temperature-cool))' },
+  forecastTemp: { label: 'Forecast', color: 'hsl(var(--temperature-cool))' }
+} satisfies ChartConfig;
+
+const humidityConfig = {
+  humidityHigh: { label: 'High', color: 'hsl(var(--pressure-color))' },
+  humidityAvg: { label: 'Average', color: 'hsl(var(--humidity-color))' },
+  humidityLow: { label: 'Low', color: 'hsl(var(--wind-color))' }
+} satisfies ChartConfig;
+
+const pressureConfig = {
+  pressureMax: { label: 'Max', color: 'hsl(var(--pressure-color))' },
+  pressureMin: { label: 'Min', color: 'hsl(var(--humidity-color))' }
+} satisfies ChartConfig;
+
+const windConfig = {
+  windGust: { label: 'Gust', color: 'hsl(var(--temperature-warm))' },
+  windAvg: { label: 'Average', color: 'hsl(var(--wind-color))' }
+} satisfies ChartConfig;
+
+const precipConfig = {
+  precipTotal: { label: 'Total', color: 'hsl(var(--humidity-color))' },
+  forecastPrecip: { label: 'Forecast', color: 'hsl(var(--wind-color))' }
+} satisfies ChartConfig;
+
+const rainRateConfig = {
+  precipRate: { label: 'Rain Rate', color: 'hsl(var(--humidity-color))' }
+} satisfies ChartConfig;
+
+const round = (value: Reading, decimals = 1) =>
+  value === null ? null : Number(value.toFixed(decimals));
+
+const formatDay = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+
+const formatDayTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+
+const ChartCard = ({ title, icon, children }: { title: string; icon: ReactNode; children: ReactNode }) => (
+  <Card className="bg-card-gradient border-0 shadow-weather">
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center space-x-2 text-base">
+        {icon}
+        <span>{title}</span>
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="px-2 md:px-6">{children}</CardContent>
+  </Card>
+);
+
+export const WeatherHistoryCharts = ({
+  summaries,
+  units,
+  resolution = 'daily',
+  forecast
+}: WeatherHistoryChartsProps) => {
+  const { preferences, labels } = units;
+  const isDaily = resolution === 'daily';
+  const pressureDecimals = preferences.pressure === 'inHg' ? 2 : 1;
+  const rainDecimals = preferences.rain === 'in' ? 2 : 1;
+
+  const data = useMemo(() => {
+    // Forecasts are matched on local time: whole days, or the hour a reading falls in
+    const forecastDays = new Map(forecast?.daily.map((day) => [day.date, day]));
+    const forecastHours = new Map(forecast?.hourly.map((hour) => [hour.time.slice(0, 13), hour]));
+
+    return summaries.map((day) => {
+      const high = round(convertTemperature(day.metric.tempHigh, preferences.temperature));
+      const low = round(convertTemperature(day.metric.tempLow, preferences.temperature));
+      const forecastDay = forecastDays.get(getLocalDate(day));
+      const forecastHour = forecastHours.get(day.obsTimeLocal.slice(0, 13));
+      return {
+        day: isDaily ? formatDay(day.obsTimeLocal) : formatDayTime(day.obsTimeLocal),
+        tempRange: high === null || low === null ? null : [low, high],
+        tempAvg: round(convertTemperature(day.metric.tempAvg, preferences.temperature)),
+        humidityHigh: day.humidityHigh,
+        humidityAvg: round(day.humidityAvg, 0),
+        humidityLow: day.humidityLow,
+        pressureMax: round(convertPressure(day.metric.pressureMax, preferences.pressure), pressureDecimals),
+        pressureMin: round(convertPressure(day.metric.pressureMin, preferences.pressure), pressureDecimals),
+        windAvg: round(convertWind(day.metric.windspeedAvg, preferences.wind)),
+        windGust: round(convertWind(day.metric.windgustHigh, preferences.wind)),
+        precipTotal: round(convertRain(day.metric.precipTotal, preferences.rain), rainDecimals),
+        precipRate: round(convertRain(day.metric.precipRate, preferences.rain), rainDecimals),
+        forecastHigh: round(convertTemperature(forecastDay?.tempMax ?? null, preferences.temperature)),
+        forecastLow: round(convertTemperature(forecastDay?.tempMin ?? null, preferences.temperature)),
+        forecastTemp: round(convertTemperature(forecastHour?.temp ?? null, preferences.temperature)),
+        forecastPrecip: round(convertRain(forecastDay?.precipTotal ?? null, preferences.rain), rainDecimals)
+      };
+    });
+  }, [summaries, forecast, isDaily, preferences, pressureDecimals, rainDecimals]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <ChartCard title="Temperature" icon={<ThermometerSun className="w-4 h-4 text-weather-temperature-warm" />}>
+        <ChartContainer config={temperatureConfig} className="aspect-[2/1] w-full">
+          <ComposedChart data={data} margin={{ left: -16, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} unit={labels.temperature} domain={['auto', 'auto']} />
+            <ChartTooltip content={<UnitTooltipContent config={temperatureConfig} unit={labels.temperature} decimals={1} />} />
+            <Area dataKey="tempRange" stroke="var(--color-tempRange)" fill="var(--color-tempRange)" fillOpacity={0.25} />
+            <Line dataKey="tempAvg" stroke="var(--color-tempAvg)" strokeWidth={2} dot={false} />
+            {forecast && isDaily && (
+              <Line dataKey="forecastHigh" stroke="var(--color-forecastHigh)" strokeDasharray="4 4" dot={false} />
+            )}
+            {forecast && isDaily && (
+              <Line dataKey="forecastLow" stroke="var(--color-forecastLow)" strokeDasharray="4 4" dot={false} />
+            )}
+            {forecast && !isDaily && (
+              <Line dataKey="forecastTemp" stroke="var(--color-forecastTemp)" strokeDasharray="4 4" dot={false} />
+            )}
+            <ChartLegend content={<ChartLegendContent />} />
+          </ComposedChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Humidity" icon={<Droplets className="w-4 h-4 text-weather-humidity" />}>
+        <ChartContainer config={humidityConfig} className="aspect-[2/1] w-full">
+          <LineChart data={data} margin={{ left: -16, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+            <ChartTooltip content={<UnitTooltipContent config={humidityConfig} unit="%" decimals={0} />} />
+            <Line dataKey="humidityHigh" stroke="var(--color-humidityHigh)" dot={false} />
+            <Line dataKey="humidityAvg" stroke="var(--color-humidityAvg)" strokeWidth={2} dot={false} />
+            <Line dataKey="humidityLow" stroke="var(--color-humidityLow)" dot={false} />
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Pressure" icon={<Gauge className="w-4 h-4 text-weather-pressure" />}>
+        <ChartContainer config={pressureConfig} className="aspect-[2/1] w-full">
+          <LineChart data={data} margin={{ left: 0, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+            <ChartTooltip content={<UnitTooltipContent config={pressureConfig} unit={labels.pressure} decimals={pressureDecimals} />} />
+            <Line dataKey="pressureMax" stroke="var(--color-pressureMax)" strokeWidth={2} dot={false} />
+            <Line dataKey="pressureMin" stroke="var(--color-pressureMin)" strokeWidth={2} dot={false} />
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Wind" icon={<Wind className="w-4 h-4 text-weather-wind" />}>
+        <ChartContainer config={windConfig} className="aspect-[2/1] w-full">
+          <LineChart data={data} margin={{ left: -16, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<UnitTooltipContent config={windConfig} unit={labels.wind} decimals={1} />} />
+            <Line dataKey="windGust" stroke="var(--color-windGust)" strokeDasharray="4 4" dot={false} />
+            <Line dataKey="windAvg" stroke="var(--color-windAvg)" strokeWidth={2} dot={false} />
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      {isDaily ? (
+        <ChartCard title="Precipitation" icon={<CloudRain className="w-4 h-4 text-weather-humidity" />}>
+          <ChartContainer config={precipConfig} className="aspect-[2/1] w-full">
+            <BarChart data={data} margin={{ left: -16, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} />
+              <ChartTooltip content={<UnitTooltipContent config={precipConfig} unit={labels.rain} decimals={rainDecimals} />} />
+              <Bar dataKey="precipTotal" fill="var(--color-precipTotal)" radius={4} />
+              {forecast && <Bar dataKey="forecastPrecip" fill="var(--color-forecastPrecip)" fillOpacity={0.5} radius={4} />}
+              {forecast && <ChartLegend content={<ChartLegendContent />} />}
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+      ) : (
+        // Sub-daily totals are running daily sums, so the rate reads better
+        <ChartCard title="Rain Rate" icon={<CloudRain className="w-4 h-4 text-weather-humidity" />}>
+          <ChartContainer config={rainRateConfig} className="aspect-[2/1] w-full">
+            <ComposedChart data={data} margin={{ left: -16, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} />
+              <ChartTooltip content={<UnitTooltipContent config={rainRateConfig} unit={labels.rainRate} decimals={rainDecimals} />} />
+              <Area dataKey="precipRate" stroke="var(--color-precipRate)" fill="var(--color-precipRate)" fillOpacity={0.3} />
+            </ComposedChart>
+          </ChartContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,365 @@
+import { useEffect, useMemo } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertCircle,
+  CalendarClock,
+  ThermometerSnowflake,
+  ThermometerSun,
+  Wind
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useHistory } from '@/hooks/use-weather-queries';
+import { UnitTooltipContent } from './UnitTooltipContent';
+import { WeatherConfigData } from '@/lib/config';
+import { getLocalDate, getLocalHour, HourlyObservation, parseLocalDate, Reading } from '@/lib/pws';
+import {
+  convertTemperature,
+  convertWind,
+  createUnitFormatter,
+  formatNumber,
+  MISSING_VALUE
+} from '@/lib/units';
+
+interface WeatherHourlyProps {
+  config: WeatherConfigData;
+  stationId: string;
+  date: string;
+  onBackClick: () => void;
+}
+
+const temperatureConfig = {
+  tempRange: { label: 'High / Low', color: 'hsl(var(--temperature-warm))' },
+  tempAvg: { label: 'Average', color: 'hsl(var(--temperature-primary))' }
+} satisfies ChartConfig;
+
+const windConfig = {
+  windGust: { label: 'Gust', color: 'hsl(var(--temperature-warm))' },
+  windAvg: { label: 'Average', color: 'hsl(var(--wind-color))' }
+} satisfies ChartConfig;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// Finds the hour holding the extreme value of a reading
+const findExtreme = (
+  rows: HourlyObservation[],
+  read: (row: HourlyObservation) => Reading,
+  pick: 'min' | 'max'
+) =>
+  rows.reduce<{ value: number; hour: number } | null>((best, row) => {
+    const value = read(row);
+    if (value === null) return best;
+    if (!best || (pick === 'min' ? value < best.value : value > best.value)) {
+      return { value, hour: getLocalHour(row) };
+    }
+    return best;
+  }, null);
+
+export const WeatherHourly = ({ config, stationId, date, onBackClick }: WeatherHourlyProps) => {
+  const { toast } = useToast();
+  const day = useMemo(() => parseLocalDate(date), [date]);
+  const { data: observations, error, isPending, isFetching, refetch } = useHistory(
+    { config, stationId },
+    day,
+    'hourly'
+  );
+  const units = useMemo(() => createUnitFormatter(config.units), [config.units]);
+  const { preferences, labels } = units;
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  }, [error, toast]);
+
+  const rows = useMemo(
+    () => (observations ?? []).filter((observation) => getLocalDate(observation) === date),
+    [observations, date]
+  );
+
+  const byHour = useMemo(
+    () => new Map(rows.map((row) => [getLocalHour(row), row])),
+    [rows]
+  );
+
+  const chartData = useMemo(
+    () =>
+      HOURS.map((hour) => {
+        const row = byHour.get(hour);
+        const high = row ? convertTemperature(row.metric.tempHigh, preferences.temperature) : null;
+        const low = row ? convertTemperature(row.metric.tempLow, preferences.temperature) : null;
+        return {
+          hour: formatHour(hour),
+          tempRange: high === null || low === null ? null : [low, high],
+          tempAvg: row ? convertTemperature(row.metric.tempAvg, preferences.temperature) : null,
+          windAvg: row ? convertWind(row.metric.windspeedAvg, preferences.wind) : null,
+          windGust: row ? convertWind(row.metric.windgustHigh, preferences.wind) : null
+        };
+      }),
+    [byHour, preferences]
+  );
+
+  const lowest = findExtreme(rows, (row) => row.metric.tempLow, 'min');
+  const highest = findExtreme(rows, (row) => row.metric.tempHigh, 'max');
+  const peakGust = findExtreme(rows, (row) => row.metric.windgustHigh, 'max');
+
+  const title = day.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric'
+  });
+
+  if (isPending) {
+    return (
+      <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <RefreshCw className="w-12 h-12 text-primary animate-weather-rotate mx-auto" />
+          <h2 className="text-2xl font-semibold text-foreground">Loading Hourly History...</h2>
+          <p className="text-muted-foreground">Fetching hourly history for this day</p>
+        </div>
+      </div>
+    );
+  }
+
+  if ((error && !observations) || rows.length === 0) {
+    return (
+      <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-card-gradient border-0 shadow-weather">
+          <CardContent className="p-8 text-center space-y-4">
+            <AlertCircle className="w-16 h-16 text-destructive mx-auto" />
+            <h2 className="text-2xl font-semibold text-foreground">Hourly Data Unavailable</h2>
+            <p className="text-muted-foreground text-sm">
+              {error?.message ?? `No hourly readings were recorded on ${title}`}
+            </p>
+            <div className="space-y-3">
+              <Button onClick={() => refetch()} className="w-full">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try Again
+              </Button>
+              <Button onClick={onBackClick} variant="outline" className="w-full">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to History
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const highlights = [
+    {
+      label: 'Low',
+      icon: <ThermometerSnowflake className="w-5 h-5 text-weather-temperature-cool" />,
+      value: lowest && `${units.temperature(lowest.value, 1)}${labels.temperature}`,
+      hour: lowest?.hour
+    },
+    {
+      label: 'High',
+      icon: <ThermometerSun className="w-5 h-5 text-weather-temperature-warm" />,
+      value: highest && `${units.temperature(highest.value, 1)}${labels.temperature}`,
+      hour: highest?.hour
+    },
+    {
+      label: 'Peak Gust',
+      icon: <Wind className="w-5 h-5 text-weather-wind" />,
+      value: peakGust && `${units.wind(peakGust.value)} ${labels.wind}`,
+      hour: peakGust?.hour
+    }
+  ];
+
+  return (
+    <div className="min-h-screen bg-sky-gradient">
+      <div className="container mx-auto px-4 py-4 max-w-5xl">
+        {/* Header */}
+        <div className="mb-6">
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <CalendarClock className="w-6 h-6 md:w-8 md:h-8 text-primary" />
+                  <div>
+                    <CardTitle className="text-xl md:text-3xl font-bold text-foreground">
+                      {title}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Hourly detail • {stationId}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => refetch()}
+                    disabled={isFetching}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-weather-rotate' : ''}`} />
+                    <span className="hidden sm:inline ml-2">Refresh</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onBackClick}
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span className="hidden sm:inline ml-2">Back</span>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        </div>
+
+        {/* When the extremes happened */}
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          {highlights.map((highlight) => (
+            <Card key={highlight.label} className="bg-card-gradient border-0 shadow-card">
+              <CardContent className="p-4 flex items-center space-x-3">
+                {highlight.icon}
+                <div>
+                  <div className="text-lg font-bold text-foreground">{highlight.value ?? MISSING_VALUE}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {highlight.label}
+                    {highlight.hour !== undefined && ` at ${formatHour(highlight.hour)}`}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Hourly Charts */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Temperature</CardTitle>
+            </CardHeader>
+            <CardContent className="px-2 md:px-6">
+              <ChartContainer config={temperatureConfig} className="aspect-[2/1] w-full">
+                <ComposedChart data={chartData} margin={{ left: -16, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="hour" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                  <ChartTooltip content={<UnitTooltipContent config={temperatureConfig} unit={labels.temperature} decimals={1} />} />
+                  <Area dataKey="tempRange" stroke="var(--color-tempRange)" fill="var(--color-tempRange)" fillOpacity={0.25} />
+                  <Line dataKey="tempAvg" stroke="var(--color-tempAvg)" strokeWidth={2} dot={false} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                </ComposedChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Wind</CardTitle>
+            </CardHeader>
+            <CardContent className="px-2 md:px-6">
+              <ChartContainer config={windConfig} className="aspect-[2/1] w-full">
+                <ComposedChart data={chartData} margin={{ left: -16, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="hour" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<UnitTooltipContent config={windConfig} unit={labels.wind} decimals={1} />} />
+                  <Line dataKey="windGust" stroke="var(--color-windGust)" strokeDasharray="4 4" dot={false} />
+                  <Line dataKey="windAvg" stroke="var(--color-windAvg)" strokeWidth={2} dot={false} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                </ComposedChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Hourly Table */}
+        <Card className="bg-card-gradient border-0 shadow-weather">
+          <CardContent className="p-2 md:p-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hour</TableHead>
+                  <TableHead className="text-right">Temp H / L / Avg ({labels.temperature})</TableHead>
+                  <TableHead className="text-right">Dew Pt ({labels.temperature})</TableHead>
+                  <TableHead className="text-right">Humidity H / L / Avg (%)</TableHead>
+                  <TableHead className="text-right">Wind Avg / Gust ({labels.wind})</TableHead>
+                  <TableHead className="text-right">Pressure Max / Min ({labels.pressure})</TableHead>
+                  <TableHead className="text-right">Rain Rate / Total ({labels.rain})</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {HOURS.map((hour) => {
+                  const row = byHour.get(hour);
+                  return (
+                    <TableRow key={hour} className={!row ? 'text-muted-foreground' : undefined}>
+                      <TableCell className="font-medium">{formatHour(hour)}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row
+                          ? `${units.temperature(row.metric.tempHigh, 1)} / ${units.temperature(row.metric.tempLow, 1)} / ${units.temperature(row.metric.tempAvg, 1)}`
+                          : MISSING_VALUE}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row ? units.temperature(row.metric.dewptAvg, 1) : MISSING_VALUE}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row
+                          ? `${formatNumber(row.humidityHigh)} / ${formatNumber(row.humidityLow)} / ${formatNumber(row.humidityAvg)}`
+                          : MISSING_VALUE}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row ? `${units.wind(row.metric.windspeedAvg)} / ${units.wind(row.metric.windgustHigh)}` : MISSING_VALUE}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row ? `${units.pressure(row.metric.pressureMax)} / ${units.pressure(row.metric.pressureMin)}` : MISSING_VALUE}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row ? `${units.rain(row.metric.precipRate)} / ${units.rain(row.metric.precipTotal)}` : MISSING_VALUE}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Footer */}
+        <div className="mt-8 text-center text-muted-foreground">
+          <p className="text-xs md:text-sm">
+            Hourly aggregates from personal weather station • Times in station local time
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,360 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, ArrowLeft, FileUp, RefreshCw, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { weatherKeys } from '@/hooks/use-weather-queries';
+import { getStationProvider, WeatherConfigData } from '@/lib/config';
+import {
+  buildRecords,
+  DateOrder,
+  detectUnits,
+  getImportUnitKey,
+  ImportField,
+  ImportFormat,
+  importIntoArchive,
+  ImportUnits,
+  parseImportFile,
+  ParsedImport
+} from '@/lib/import';
+import { PRESSURE_UNITS, TEMPERATURE_UNITS, WIND_UNITS } from '@/lib/units';
+
+interface WeatherImportProps {
+  config: WeatherConfigData;
+  stationId: string;
+  onImported: (from: string, to: string) => void;
+  onBackClick: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'Console CSV',
+  weewx: 'WeeWX SQLite dump',
+  cumulus: 'CumulusMX log'
+};
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  timestamp: 'Date & time',
+  date: 'Date',
+  time: 'Time',
+  temp: 'Temperature',
+  dewpt: 'Dew point',
+  humidity: 'Humidity',
+  windSpeed: 'Wind speed',
+  windGust: 'Wind gust',
+  winddir: 'Wind direction',
+  pressure: 'Pressure',
+  precipRate: 'Rain rate',
+  rain: 'Rain (per reading)',
+  rainToday: 'Rain (daily total)',
+  uv: 'UV index',
+  solarRadiation: 'Solar radiation'
+};
+
+const DATE_ORDERS: Record<DateOrder, string> = {
+  ymd: 'Year-Month-Day',
+  dmy: 'Day/Month/Year',
+  mdy: 'Month/Day/Year'
+};
+
+const UNIT_FIELDS: { key: keyof ImportUnits; label: string; options: Record<string, string> }[] = [
+  { key: 'temperature', label: 'Temperature', options: TEMPERATURE_UNITS },
+  { key: 'wind', label: 'Wind', options: { kmh: WIND_UNITS.kmh, ms: WIND_UNITS.ms, mph: WIND_UNITS.mph, kn: WIND_UNITS.kn } },
+  { key: 'pressure', label: 'Pressure', options: PRESSURE_UNITS },
+  { key: 'rain', label: 'Rain', options: { mm: 'mm', cm: 'cm', in: 'in' } }
+];
+
+const IGNORE = 'ignore';
+const PREVIEW_ROWS = 5;
+
+export const WeatherImport = ({ config, stationId, onImported, onBackClick }: WeatherImportProps) => {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [units, setUnits] = useState<ImportUnits | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const station = config.stations.find((entry) => entry.id === stationId);
+  const providerId = getStationProvider(config, stationId);
+  const result = useMemo(() => (parsed && units ? buildRecords(parsed, units) : null), [parsed, units]);
+  const hasTimestamp = parsed?.mapping.some((field) => field === 'timestamp' || field === 'date');
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const next = parseImportFile(await file.text());
+    if (next.rows.length === 0) {
+      toast({
+        title: "Unreadable File",
+        description: `No readings were found in ${file.name}`,
+        variant: "destructive",
+        duration: 5000,
+      });
+      return;
+    }
+    setFileName(file.name);
+    setParsed(next);
+    setUnits(detectUnits(next));
+  };
+
+  const updateParsed = (changes: Partial<ParsedImport>) => {
+    if (!parsed) return;
+    setParsed({ ...parsed, ...changes });
+  };
+
+  const updateMapping = (index: number, value: string) => {
+    if (!parsed) return;
+    const changed = value === IGNORE ? null : (value as ImportField);
+    const next = { ...parsed, mapping: parsed.mapping.map((field, i) => (i === index ? changed : field)) };
+    setParsed(next);
+    // Only the newly mapped column's unit is detected again; the others keep
+    // whatever the user picked
+    const unitKey = getImportUnitKey(changed);
+    if (unitKey) {
+      const detected = detectUnits(next)[unitKey];
+      setUnits((prev) => prev && { ...prev, [unitKey]: detected });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result || result.records.length === 0) return;
+    setIsImporting(true);
+    try {
+      const { days, kept, partial, from, to } = await importIntoArchive(providerId, stationId, result.records);
+      // Cached history days and the 7-day summary were read before the import filled them in
+      queryClient.removeQueries({ queryKey: weatherKeys.histories(providerId, stationId) });
+      queryClient.removeQueries({ queryKey: weatherKeys.daily(providerId, stationId) });
+      const notes = [
+        partial > 0 && `${partial} incomplete days will still be filled in from the station`,
+        kept > 0 && `${kept} days already in the archive were kept`
+      ].filter(Boolean);
+      toast({
+        title: "Import Complete",
+        description: [`${days} days added to the archive`, ...notes].join('; '),
+        duration: 5000,
+      });
+      onImported(from, to);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not write to the local archive",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const first = result?.records[0];
+  const last = result?.records[result.records.length - 1];
+
+  return (
+    <div className="min-h-screen bg-sky-gradient">
+      <div className="container mx-auto px-4 py-4 max-w-4xl">
+        {/* Header */}
+        <div className="mb-6">
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <FileUp className="w-6 h-6 md:w-8 md:h-8 text-primary" />
+                  <div>
+                    <CardTitle className="text-xl md:text-3xl font-bold text-foreground">
+                      Import History
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Into the local archive of {station?.name || stationId}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={onBackClick}>
+                  <ArrowLeft className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-2">Back</span>
+                </Button>
+              </div>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card className="mb-6 bg-card-gradient border-0 shadow-weather">
+          <CardContent className="p-6 space-y-2">
+            <Label htmlFor="importFile" className="text-sm font-medium">
+              Export file
+            </Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".csv,.txt,.sql,.log"
+              onChange={handleFileChange}
+              className="h-12"
+            />
+            <p className="text-xs text-muted-foreground">
+              Console CSV exports, WeeWX dumps (<code>sqlite3 weewx.sdb .dump</code>) or CumulusMX monthly logs
+            </p>
+          </CardContent>
+        </Card>
+
+        {parsed && units && result && (
+          <div className="space-y-6">
+            {/* Column Mapping */}
+            <Card className="bg-card-gradient border-0 shadow-weather">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base">{fileName}</CardTitle>
+                  <Badge variant="secondary">{FORMAT_LABELS[parsed.format]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="px-2 md:px-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {parsed.columns.map((column, index) => (
+                        <TableHead key={index} className="min-w-36 align-top py-2">
+                          <Select
+                            value={parsed.mapping[index] ?? IGNORE}
+                            onValueChange={(value) => updateMapping(index, value)}
+                          >
+                            <SelectTrigger className="h-8 text-xs" aria-label={`Map ${column}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={IGNORE}>Ignore</SelectItem>
+                              {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                                <SelectItem key={field} value={field}>
+                                  {FIELD_LABELS[field]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="mt-1 truncate text-xs font-normal">{column}</div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {parsed.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {parsed.columns.map((_, index) => (
+                          <TableCell
+                            key={index}
+                            className={`text-xs tabular-nums ${parsed.mapping[index] ? '' : 'text-muted-foreground'}`}
+                          >
+                            {row[index]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Units & Dates */}
+            <Card className="bg-card-gradient border-0 shadow-weather">
+              <CardContent className="p-6 grid grid-cols-2 md:grid-cols-5 gap-3">
+                {UNIT_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`import-${field.key}`} className="text-xs text-muted-foreground">
+                      {field.label}
+                    </Label>
+                    <Select
+                      value={units[field.key]}
+                      onValueChange={(unit) => setUnits({ ...units, [field.key]: unit })}
+                    >
+                      <SelectTrigger id={`import-${field.key}`} className="h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(field.options).map(([unit, label]) => (
+                          <SelectItem key={unit} value={unit}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="import-dateOrder" className="text-xs text-muted-foreground">
+                    Dates
+                  </Label>
+                  <Select
+                    value={parsed.dateOrder}
+                    onValueChange={(dateOrder) => updateParsed({ dateOrder: dateOrder as DateOrder })}
+                  >
+                    <SelectTrigger id="import-dateOrder" className="h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DATE_ORDERS).map(([order, label]) => (
+                        <SelectItem key={order} value={order}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Summary */}
+            <Card className="bg-card-gradient border-0 shadow-weather">
+              <CardContent className="p-6 space-y-4">
+                {!hasTimestamp ? (
+                  <div className="flex items-center space-x-2 text-sm text-destructive">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    <span>Map a column to Date or Date &amp; time to import this file</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-semibold text-foreground">{result.records.length}</span> readings
+                    {first && last && (
+                      <>
+                        {' '}from <span className="font-semibold text-foreground">{first.obsTimeLocal}</span> to{' '}
+                        <span className="font-semibold text-foreground">{last.obsTimeLocal}</span>
+                      </>
+                    )}
+                    {result.skipped > 0 && ` • ${result.skipped} rows with unreadable dates skipped`}
+                  </p>
+                )}
+                <Button
+                  onClick={handleImport}
+                  disabled={isImporting || result.records.length === 0}
+                  className="w-full h-12 text-base font-semibold"
+                >
+                  {isImporting ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-weather-rotate" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Import {result.records.length} Readings
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { ReactNode } from 'react';
+import { Droplets, Wind, Gauge, Sun } from 'lucide-react';
+import { WeatherCard } from './WeatherCard';
+import { MetricSnapshot } from '@/lib/snapshot';
+import { formatNumber, getWindDirection, MISSING_VALUE, UnitFormatter } from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+interface WeatherMetricsGridProps {
+  snapshot: MetricSnapshot;
+  units: UnitFormatter;
+  className?: string;
+  children?: ReactNode;
+}
+
+export const WeatherMetricsGrid = ({ snapshot, units, className, children }: WeatherMetricsGridProps) => {
+  return (
+    <div className={cn("grid grid-cols-2 lg:grid-cols-4 gap-4", className)}>
+      <WeatherCard
+        title="Humidity"
+        value={formatNumber(snapshot.humidity)}
+        unit="%"
+        icon={<Droplets className="w-5 h-5 md:w-6 md:h-6 text-weather-humidity" />}
+        delay={100}
+      />
+      
+      <WeatherCard
+        title="Wind Speed"
+        value={units.wind(snapshot.windSpeed)}
+        unit={units.labels.wind}
+        icon={<Wind className="w-5 h-5 md:w-6 md:h-6 text-weather-wind" />}
+        delay={200}
+      />
+      
+      <WeatherCard
+        title="Wind Direction"
+        value={getWindDirection(snapshot.winddir)}
+        unit={snapshot.winddir === null ? undefined : `${Math.round(snapshot.winddir)}°`}
+        icon={<Wind className="w-5 h-5 md:w-6 md:h-6 text-weather-wind" style={{ transform: `rotate(${snapshot.winddir ?? 0}deg)` }} />}
+        delay={300}
+      />
+      
+      <WeatherCard
+        title="Pressure"
+        value={units.pressure(snapshot.pressure)}
+        unit={units.labels.pressure}
+        icon={<Gauge className="w-5 h-5 md:w-6 md:h-6 text-weather-pressure" />}
+        delay={400}
+      />
+      
+      <WeatherCard
+        title="UV Index"
+        value={snapshot.uv ?? MISSING_VALUE}
+        icon={<Sun className="w-5 h-5 md:w-6 md:h-6 text-weather-uv" />}
+        delay={500}
+      />
+      
+      <WeatherCard
+        title="Solar Radiation"
+        value={formatNumber(snapshot.solarRadiation)}
+        unit="W/m²"
+        icon={<Sun className="w-5 h-5 md:w-6 md:h-6 text-weather-uv" />}
+        delay={600}
+      />
+      
+      <WeatherCard
+        title="Dew Point"
+        value={units.temperature(snapshot.dewpt)}
+        unit={units.labels.temperature}
+        icon={<Droplets className="w-5 h-5 md:w-6 md:h-6 text-weather-humidity" />}
+        delay={700}
+      />
+
+      {children}
+    </div>
+  );
+};
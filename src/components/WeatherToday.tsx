@@ -0,0 +1,342 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertCircle,
+  Clock,
+  CloudRain,
+  Droplets,
+  Gauge,
+  Thermometer,
+  Wind
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip
+} from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { useTodayObservations } from '@/hooks/use-weather-queries';
+import { WeatherCard } from './WeatherCard';
+import { WeatherMetricsGrid } from './WeatherMetricsGrid';
+import { ExportMenu } from './ExportMenu';
+import { getStationLabel, WeatherConfigData } from '@/lib/config';
+import { getLocalDate } from '@/lib/pws';
+import { snapshotFromObservation } from '@/lib/snapshot';
+import {
+  convertPressure,
+  convertRain,
+  convertTemperature,
+  convertWind,
+  createUnitFormatter
+} from '@/lib/units';
+
+interface WeatherTodayProps {
+  config: WeatherConfigData;
+  stationId: string;
+  onBackClick: () => void;
+}
+
+const temperatureConfig = {
+  temp: { label: 'Temperature', color: 'hsl(var(--temperature-warm))' },
+  dewpt: { label: 'Dew Point', color: 'hsl(var(--humidity-color))' }
+} satisfies ChartConfig;
+
+const humidityConfig = {
+  humidity: { label: 'Humidity', color: 'hsl(var(--humidity-color))' }
+} satisfies ChartConfig;
+
+const pressureConfig = {
+  pressure: { label: 'Pressure', color: 'hsl(var(--pressure-color))' }
+} satisfies ChartConfig;
+
+const windConfig = {
+  windSpeed: { label: 'Speed', color: 'hsl(var(--wind-color))' },
+  windGust: { label: 'Gust', color: 'hsl(var(--temperature-warm))' }
+} satisfies ChartConfig;
+
+const rainConfig = {
+  precipRate: { label: 'Rain Rate', color: 'hsl(var(--humidity-color))' }
+} satisfies ChartConfig;
+
+const formatClock = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+interface IntradayChartProps {
+  title: string;
+  icon: ReactNode;
+  config: ChartConfig;
+  data: object[];
+  unit: string;
+  onHover: (index: number | null) => void;
+  children: ReactNode;
+}
+
+// All charts share a syncId so the crosshair moves across them together
+const IntradayChart = ({ title, icon, config, data, unit, onHover, children }: IntradayChartProps) => (
+  <Card className="bg-card-gradient border-0 shadow-weather">
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center space-x-2 text-base">
+        {icon}
+        <span>{title}</span>
+        <span className="text-xs font-normal text-muted-foreground">({unit})</span>
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="px-2 md:px-6">
+      <ChartContainer config={config} className="aspect-[3/1] w-full">
+        <ComposedChart
+          data={data}
+          syncId="intraday"
+          margin={{ left: -8, right: 8 }}
+          onMouseMove={(state) => onHover(state?.activeTooltipIndex ?? null)}
+          onMouseLeave={() => onHover(null)}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickLine={false} axisLine={false} tickMargin={8} minTickGap={32} />
+          <YAxis tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+          <ChartTooltip content={() => null} cursor={{ strokeWidth: 1 }} />
+          {children}
+          {Object.keys(config).length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+        </ComposedChart>
+      </ChartContainer>
+    </CardContent>
+  </Card>
+);
+
+export const WeatherToday = ({ config, stationId, onBackClick }: WeatherTodayProps) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { data: observations, error, isPending, isFetching, refetch } = useTodayObservations({
+    config,
+    stationId
+  });
+  const units = useMemo(() => createUnitFormatter(config.units), [config.units]);
+  const { preferences } = units;
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  }, [error, toast]);
+
+  const data = useMemo(
+    () =>
+      (observations ?? []).map((observation) => {
+        const snapshot = snapshotFromObservation(observation);
+        return {
+          time: formatClock(observation.obsTimeLocal),
+          temp: convertTemperature(snapshot.temp, preferences.temperature),
+          dewpt: convertTemperature(snapshot.dewpt, preferences.temperature),
+          humidity: snapshot.humidity,
+          pressure: convertPressure(snapshot.pressure, preferences.pressure),
+          windSpeed: convertWind(snapshot.windSpeed, preferences.wind),
+          windGust: convertWind(snapshot.windGust, preferences.wind),
+          precipRate: convertRain(snapshot.precipRate, preferences.rain)
+        };
+      }),
+    [observations, preferences]
+  );
+
+  if (isPending) {
+    return (
+      <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <RefreshCw className="w-12 h-12 text-primary animate-weather-rotate mx-auto" />
+          <h2 className="text-2xl font-semibold text-foreground">Loading Today's Readings...</h2>
+          <p className="text-muted-foreground">Fetching every observation since midnight</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error && !observations) {
+    return (
+      <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-card-gradient border-0 shadow-weather">
+          <CardContent className="p-8 text-center space-y-4">
+            <AlertCircle className="w-16 h-16 text-destructive mx-auto" />
+            <h2 className="text-2xl font-semibold text-foreground">Timeline Unavailable</h2>
+            <p className="text-muted-foreground text-sm">{error.message}</p>
+            <div className="space-y-3">
+              <Button onClick={() => refetch()} className="w-full">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try Again
+              </Button>
+              <Button onClick={onBackClick} variant="outline" className="w-full">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const selectedIndex = activeIndex !== null && observations[activeIndex] ? activeIndex : observations.length - 1;
+  const selected = observations[selectedIndex];
+  const snapshot = snapshotFromObservation(selected);
+  const station = config.stations.find((entry) => entry.id === stationId);
+  const today = getLocalDate(selected);
+
+  return (
+    <div className="min-h-screen bg-sky-gradient">
+      <div className="container mx-auto px-4 py-4 max-w-4xl">
+        {/* Header */}
+        <div className="mb-6">
+          <Card className="bg-card-gradient border-0 shadow-weather">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Clock className="w-6 h-6 md:w-8 md:h-8 text-primary" />
+                  <div>
+                    <CardTitle className="text-xl md:text-3xl font-bold text-foreground">
+                      Today
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {observations.length} readings since midnight • {stationId}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <ExportMenu
+                    units={units}
+                    sources={[
+                      {
+                        label: "Today's observations",
+                        metadata: {
+                          stationId,
+                          stationName: station ? getStationLabel(station) : stationId,
+                          granularity: 'all',
+                          from: today,
+                          to: today
+                        },
+                        load: async () => observations
+                      }
+                    ]}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => refetch()}
+                    disabled={isFetching}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-weather-rotate' : ''}`} />
+                    <span className="hidden sm:inline ml-2">Refresh</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onBackClick}
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span className="hidden sm:inline ml-2">Back</span>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        </div>
+
+        {/* Readings at the scrubbed time */}
+        <p className="mb-2 text-sm text-muted-foreground">
+          {activeIndex === null ? 'Latest reading' : 'Reading'} at{' '}
+          <span className="font-semibold text-foreground">{formatClock(selected.obsTimeLocal)}</span>
+        </p>
+        <WeatherMetricsGrid snapshot={snapshot} units={units} className="mb-6">
+          <WeatherCard
+            title="Temperature"
+            value={units.temperature(snapshot.temp, 1)}
+            unit={units.labels.temperature}
+            icon={<Thermometer className="w-5 h-5 md:w-6 md:h-6 text-weather-temperature-warm" />}
+            delay={800}
+          />
+        </WeatherMetricsGrid>
+
+        {/* Timeline Charts */}
+        <div className="space-y-4">
+          <IntradayChart
+            title="Temperature & Dew Point"
+            icon={<Thermometer className="w-4 h-4 text-weather-temperature-warm" />}
+            config={temperatureConfig}
+            data={data}
+            unit={units.labels.temperature}
+            onHover={setActiveIndex}
+          >
+            <Line dataKey="temp" stroke="var(--color-temp)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line dataKey="dewpt" stroke="var(--color-dewpt)" dot={false} isAnimationActive={false} />
+          </IntradayChart>
+
+          <IntradayChart
+            title="Humidity"
+            icon={<Droplets className="w-4 h-4 text-weather-humidity" />}
+            config={humidityConfig}
+            data={data}
+            unit="%"
+            onHover={setActiveIndex}
+          >
+            <Line dataKey="humidity" stroke="var(--color-humidity)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </IntradayChart>
+
+          <IntradayChart
+            title="Pressure"
+            icon={<Gauge className="w-4 h-4 text-weather-pressure" />}
+            config={pressureConfig}
+            data={data}
+            unit={units.labels.pressure}
+            onHover={setActiveIndex}
+          >
+            <Line dataKey="pressure" stroke="var(--color-pressure)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </IntradayChart>
+
+          <IntradayChart
+            title="Wind"
+            icon={<Wind className="w-4 h-4 text-weather-wind" />}
+            config={windConfig}
+            data={data}
+            unit={units.labels.wind}
+            onHover={setActiveIndex}
+          >
+            <Line dataKey="windGust" stroke="var(--color-windGust)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            <Line dataKey="windSpeed" stroke="var(--color-windSpeed)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </IntradayChart>
+
+          <IntradayChart
+            title="Rain Rate"
+            icon={<CloudRain className="w-4 h-4 text-weather-humidity" />}
+            config={rainConfig}
+            data={data}
+            unit={units.labels.rainRate}
+            onHover={setActiveIndex}
+          >
+            <Area dataKey="precipRate" stroke="var(--color-precipRate)" fill="var(--color-precipRate)" fillOpacity={0.3} isAnimationActive={false} />
+          </IntradayChart>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-8 text-center text-muted-foreground">
+          <p className="text-xs md:text-sm">
+            5-minute observations from personal weather station • Hover a chart to scrub through the day
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { FormEvent, useState } from 'react';
+import { KeyRound, Lock, RefreshCw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { VaultError } from '@/lib/vault';
+
+interface WeatherUnlockProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  // Discards the saved configuration so setup can start over
+  onReset: () => void;
+}
+
+export const WeatherUnlock = ({ onUnlock, onReset }: WeatherUnlockProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof VaultError ? err.message : 'Your saved settings could not be unlocked');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-sky-gradient flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-card-gradient border-0 shadow-weather">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-4">
+            <Lock className="w-8 h-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-foreground">
+            Unlock Weather Station
+          </CardTitle>
+          <p className="text-muted-foreground text-sm">
+            Your credentials are protected with a passphrase
+          </p>
+        </CardHeader>
+
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="passphrase" className="text-sm font-medium">
+                Passphrase
+              </Label>
+              <Input
+                id="passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="h-12"
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+
+            <Button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="w-full h-12 text-base font-medium"
+              size="lg"
+            >
+              {isUnlocking ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-weather-rotate" />
+              ) : (
+                <KeyRound className="w-4 h-4 mr-2" />
+              )}
+              Unlock
+            </Button>
+
+            <div className="text-center space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Forgot your passphrase? The credentials cannot be recovered without it.
+              </p>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button type="button" variant="ghost" size="sm">
+                    Forget Saved Settings
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Forget saved settings?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Your stations and credentials will be removed from this browser and you will need to set them up again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onReset}>Forget</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query"
+
+import {
+  ForecastLocation,
+  ForecastRange,
+  getForecastSource,
+} from "@/lib/forecast"
+
+const MINUTE = 60 * 1000
+
+// Coordinates are rounded so nearby fixes share a cache entry
+export const forecastKeys = {
+  all: ["forecast"] as const,
+  forecast: (sourceId: string, location: ForecastLocation, range?: ForecastRange) =>
+    [
+      ...forecastKeys.all,
+      sourceId,
+      location.lat.toFixed(2),
+      location.lon.toFixed(2),
+      range ? `${range.from}_${range.to}` : "next",
+    ] as const,
+}
+
+export function useForecast(location: ForecastLocation | null, range?: ForecastRange) {
+  const source = getForecastSource()
+  const target = location ?? { lat: 0, lon: 0 }
+
+  return useQuery({
+    queryKey: forecastKeys.forecast(source.id, target, range),
+    queryFn: () => source.getForecast(target, range),
+    enabled: Boolean(location),
+    staleTime: 30 * MINUTE,
+    gcTime: 60 * MINUTE,
+    retry: 1,
+  })
+}
@@ -0,0 +1,72 @@
+import { useEffect } from "react"
+import { QueryKey, useQueryClient } from "@tanstack/react-query"
+
+import { archiveObservation, archiveSummaries } from "@/lib/archive"
+import { isProviderId } from "@/lib/providers"
+import {
+  CurrentObservation,
+  getLocalDate,
+  SummaryObservation,
+  toLocalDateKey,
+} from "@/lib/pws"
+
+import { weatherKeys } from "./use-weather-queries"
+
+const archiveQueryData = (queryKey: QueryKey, data: unknown) => {
+  const [root, providerId, stationId, kind] = queryKey
+  if (
+    root !== weatherKeys.all[0] ||
+    !isProviderId(providerId) ||
+    typeof stationId !== "string"
+  ) {
+    return
+  }
+
+  switch (kind) {
+    case "current":
+      return archiveObservation(providerId, data as CurrentObservation)
+    case "daily": {
+      // Every day before today in the 7-day summary is final
+      const today = toLocalDateKey(new Date())
+      const summaries = data as SummaryObservation[]
+      const pastDates = summaries
+        .map((summary) => getLocalDate(summary))
+        .filter((date) => date < today)
+      return archiveSummaries(providerId, stationId, "daily", summaries, pastDates)
+    }
+    case "hourly":
+      return archiveSummaries(
+        providerId,
+        stationId,
+        "hourly",
+        data as SummaryObservation[]
+      )
+    case "today":
+      return archiveSummaries(
+        providerId,
+        stationId,
+        "all",
+        data as SummaryObservation[]
+      )
+    // History days archive themselves as they are fetched
+    default:
+      return
+  }
+}
+
+// Copies every successful station fetch into the IndexedDB archive
+export function useObservationArchive() {
+  const queryClient = useQueryClient()
+
+  useEffect(
+    () =>
+      queryClient.getQueryCache().subscribe((event) => {
+        if (event.type !== "updated" || event.action.type !== "success") return
+        // A failed write only leaves a gap in the archive, so it stays quiet
+        archiveQueryData(event.query.queryKey, event.action.data)?.catch(
+          () => undefined
+        )
+      }),
+    [queryClient]
+  )
+}
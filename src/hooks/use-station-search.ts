@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query"
+
+import type { ForecastLocation } from "@/lib/forecast"
+import { PwsEmptyPayloadError } from "@/lib/pws"
+import { createWeatherComClient, LocationMatch } from "@/lib/weathercom"
+
+const MINUTE = 60 * 1000
+
+// Either a position from the browser or whatever the user typed
+export type StationSearch = { location: ForecastLocation } | { query: string }
+
+const COORDINATES = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/
+
+// Accepts "52.52, 13.40" style input; anything else is a postcode or place
+const parseCoordinates = (value: string): ForecastLocation | null => {
+  const match = value.match(COORDINATES)
+  if (!match) return null
+  const [lat, lon] = [Number(match[1]), Number(match[2])]
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null
+}
+
+const describeLocation = ({ lat, lon }: ForecastLocation) =>
+  `${lat.toFixed(3)}, ${lon.toFixed(3)}`
+
+// Keyed by the API key too, so results or errors from an earlier key are
+// not reused after it changes
+export const stationSearchKeys = {
+  all: ["station-search"] as const,
+  search: (apiKey: string, search: StationSearch) =>
+    [
+      ...stationSearchKeys.all,
+      apiKey,
+      "location" in search
+        ? describeLocation(search.location)
+        : search.query.trim().toLowerCase(),
+    ] as const,
+}
+
+export function useNearbyStations(apiKey: string, search: StationSearch | null) {
+  return useQuery({
+    queryKey: stationSearchKeys.search(apiKey, search ?? { query: "" }),
+    queryFn: async () => {
+      const client = createWeatherComClient({ apiKey })
+      const coordinates =
+        search && ("location" in search ? search.location : parseCoordinates(search.query))
+      const origin: LocationMatch | null = coordinates
+        ? { name: describeLocation(coordinates), location: coordinates }
+        : await client.searchLocation(search && "query" in search ? search.query : "")
+      if (!origin) {
+        throw new PwsEmptyPayloadError("No place matches that search")
+      }
+      const stations = await client.findNearbyStations(origin.location)
+      return { origin, stations }
+    },
+    enabled: Boolean(apiKey && search),
+    staleTime: 10 * MINUTE,
+    retry: false,
+  })
+}
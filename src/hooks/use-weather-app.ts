@@ -0,0 +1,14 @@
+import { useOutletContext } from "react-router-dom"
+
+import type { WeatherConfigData } from "@/lib/config"
+
+export interface WeatherAppContext {
+  config: WeatherConfigData | null
+  onConfigSave: (config: WeatherConfigData) => void
+  onStationChange: (stationId: string) => void
+}
+
+// Shared by every route rendered inside the WeatherApp layout
+export function useWeatherApp() {
+  return useOutletContext<WeatherAppContext>()
+}
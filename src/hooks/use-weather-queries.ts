@@ -0,0 +1,350 @@
+import { useCallback, useEffect } from "react"
+import { isToday, subDays } from "date-fns"
+import {
+  queryOptions,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query"
+
+import { archiveSummaries, readArchivedDay } from "@/lib/archive"
+import {
+  getProviderCredentials,
+  getStationProvider,
+  WeatherConfigData,
+} from "@/lib/config"
+import type { ForecastLocation } from "@/lib/forecast"
+import {
+  getProvider,
+  hasCredentials,
+  ProviderId,
+  WeatherProvider,
+} from "@/lib/providers"
+import {
+  formatHistoryDate,
+  HistoryGranularity,
+  HourlyObservation,
+  PwsAuthError,
+  PwsEmptyPayloadError,
+  PwsStationNotFoundError,
+  PwsUnsupportedError,
+  toLocalDateKey,
+} from "@/lib/pws"
+import { createWeatherComClient } from "@/lib/weathercom"
+
+const MINUTE = 60 * 1000
+
+interface StationQueryConfig {
+  config: WeatherConfigData
+  stationId: string
+}
+
+// Station ids are only unique within their provider
+export const weatherKeys = {
+  all: ["pws"] as const,
+  station: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.all, providerId, stationId] as const,
+  current: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.station(providerId, stationId), "current"] as const,
+  daily: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.station(providerId, stationId), "daily"] as const,
+  hourly: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.station(providerId, stationId), "hourly"] as const,
+  today: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.station(providerId, stationId), "today"] as const,
+  // Keyed by the rounded coordinates too, so a moved station refetches
+  forecast: (providerId: ProviderId, stationId: string, location: ForecastLocation) =>
+    [
+      ...weatherKeys.station(providerId, stationId),
+      "forecast",
+      "weathercom",
+      location.lat.toFixed(2),
+      location.lon.toFixed(2),
+    ] as const,
+  histories: (providerId: ProviderId, stationId: string) =>
+    [...weatherKeys.station(providerId, stationId), "history"] as const,
+  history: (
+    providerId: ProviderId,
+    stationId: string,
+    date: string,
+    granularity: HistoryGranularity
+  ) => [...weatherKeys.histories(providerId, stationId), granularity, date] as const,
+}
+
+// Retrying cannot fix a bad key, an unknown station or a missing feature
+const retry = (failureCount: number, error: Error) =>
+  !(
+    error instanceof PwsAuthError ||
+    error instanceof PwsStationNotFoundError ||
+    error instanceof PwsUnsupportedError
+  ) && failureCount < 2
+
+// Looks up the station's provider; queries wait until its credentials are set
+const resolveProvider = (config: WeatherConfigData, stationId: string) => {
+  const providerId = getStationProvider(config, stationId)
+  const credentials = getProviderCredentials(config, providerId)
+  return {
+    providerId,
+    provider: getProvider(providerId, credentials),
+    ready: Boolean(stationId) && hasCredentials(providerId, credentials),
+  }
+}
+
+const currentObservationOptions = (
+  providerId: ProviderId,
+  provider: WeatherProvider,
+  stationId: string
+) =>
+  queryOptions({
+    queryKey: weatherKeys.current(providerId, stationId),
+    queryFn: () => provider.getCurrent(stationId),
+    staleTime: MINUTE,
+    retry,
+  })
+
+export function useCurrentObservation({ config, stationId }: StationQueryConfig) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQuery({
+    ...currentObservationOptions(providerId, provider, stationId),
+    enabled: ready,
+    refetchInterval: 5 * MINUTE,
+  })
+}
+
+export function useCurrentObservations(config: WeatherConfigData, stationIds: string[]) {
+  return useQueries({
+    queries: stationIds.map((stationId) => {
+      const { providerId, provider, ready } = resolveProvider(config, stationId)
+      return {
+        ...currentObservationOptions(providerId, provider, stationId),
+        enabled: ready,
+        refetchInterval: 5 * MINUTE,
+      }
+    }),
+  })
+}
+
+// Warms the cache for the other configured stations so switching is instant
+export function usePrefetchCurrentObservations(config: WeatherConfigData, stationIds: string[]) {
+  const queryClient = useQueryClient()
+  const stationKey = stationIds.join(",")
+
+  useEffect(() => {
+    stationKey
+      .split(",")
+      .filter(Boolean)
+      .forEach((stationId) => {
+        const { providerId, provider, ready } = resolveProvider(config, stationId)
+        if (ready) {
+          queryClient.prefetchQuery(currentObservationOptions(providerId, provider, stationId))
+        }
+      })
+  }, [config, queryClient, stationKey])
+}
+
+export function useDailySummaries(
+  { config, stationId }: StationQueryConfig,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQuery({
+    queryKey: weatherKeys.daily(providerId, stationId),
+    queryFn: () => fetchDailySummaries(providerId, provider, stationId),
+    enabled: enabled && ready,
+    staleTime: 30 * MINUTE,
+    retry,
+  })
+}
+
+export function useHourlyObservations({ config, stationId }: StationQueryConfig) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQuery({
+    queryKey: weatherKeys.hourly(providerId, stationId),
+    queryFn: () => provider.getHourly(stationId),
+    enabled: ready,
+    staleTime: 15 * MINUTE,
+    retry,
+  })
+}
+
+export function useTodayObservations({ config, stationId }: StationQueryConfig) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQuery({
+    queryKey: weatherKeys.today(providerId, stationId),
+    queryFn: () => provider.getAllToday(stationId),
+    enabled: ready,
+    staleTime: MINUTE,
+    refetchInterval: 5 * MINUTE,
+    retry,
+  })
+}
+
+// Reads finished days from the local archive and only asks the API for gaps
+async function fetchHistoryDay(
+  providerId: ProviderId,
+  provider: WeatherProvider,
+  stationId: string,
+  date: Date,
+  granularity: HistoryGranularity
+): Promise<HourlyObservation[]> {
+  const archived = await readArchivedDay(providerId, stationId, granularity, date).catch(
+    () => null
+  )
+  if (archived) return archived
+
+  let observations: HourlyObservation[]
+  try {
+    observations = await provider.getHistory(stationId, date, granularity)
+  } catch (error) {
+    // A day the station was offline is an empty day, not a failed range
+    if (!(error instanceof PwsEmptyPayloadError)) throw error
+    observations = []
+  }
+
+  // Archiving is best effort: without it the day is simply fetched again
+  const completeDates = isToday(date) ? [] : [toLocalDateKey(date)]
+  archiveSummaries(
+    providerId,
+    stationId,
+    granularity,
+    observations,
+    completeDates
+  ).catch(() => undefined)
+  return observations
+}
+
+// Once the archive covers the six days before today, only today is fetched;
+// otherwise the 7-day summary fills the gaps in one request
+async function fetchDailySummaries(
+  providerId: ProviderId,
+  provider: WeatherProvider,
+  stationId: string
+): Promise<HourlyObservation[]> {
+  const today = new Date()
+  const pastDays = Array.from({ length: 6 }, (_, index) => subDays(today, 6 - index))
+  const archived = await Promise.all(
+    pastDays.map((date) =>
+      readArchivedDay(providerId, stationId, "daily", date).catch(() => null)
+    )
+  )
+  if (archived.some((day) => day === null)) {
+    return provider.getDailySummaries(stationId)
+  }
+
+  const todays = await fetchHistoryDay(providerId, provider, stationId, today, "daily")
+  const summaries = [...archived.flat(), ...todays]
+  if (summaries.length === 0) {
+    throw new PwsEmptyPayloadError("No historical data available for this station")
+  }
+  return summaries
+}
+
+const historyOptions = (
+  providerId: ProviderId,
+  provider: WeatherProvider,
+  stationId: string,
+  date: Date,
+  granularity: HistoryGranularity
+) =>
+  queryOptions({
+    queryKey: weatherKeys.history(providerId, stationId, formatHistoryDate(date), granularity),
+    queryFn: () => fetchHistoryDay(providerId, provider, stationId, date, granularity),
+    // Past days no longer change once the station has uploaded them
+    staleTime: isToday(date) ? 5 * MINUTE : Infinity,
+    // Keep fetched days around so paging back to a range is free
+    gcTime: 60 * MINUTE,
+    retry,
+  })
+
+export function useHistory(
+  { config, stationId }: StationQueryConfig,
+  date: Date,
+  granularity: HistoryGranularity = "daily"
+) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQuery({
+    ...historyOptions(providerId, provider, stationId, date, granularity),
+    enabled: ready,
+  })
+}
+
+// Fetches each day separately so days are cached and shared between ranges
+export function useHistoryRange(
+  { config, stationId }: StationQueryConfig,
+  dates: Date[],
+  granularity: HistoryGranularity = "daily"
+) {
+  const { providerId, provider, ready } = resolveProvider(config, stationId)
+
+  return useQueries({
+    queries: dates.map((date) => ({
+      ...historyOptions(providerId, provider, stationId, date, granularity),
+      enabled: ready,
+    })),
+    combine: (results) => ({
+      data: results
+        .flatMap((result) => result.data ?? [])
+        .sort((a, b) => a.epoch - b.epoch),
+      error: results.find((result) => result.error)?.error ?? null,
+      isPending: results.some((result) => result.isPending),
+      isFetching: results.some((result) => result.isFetching),
+      loadedDays: results.filter((result) => result.isSuccess).length,
+      refetch: async () => {
+        const refetched = await Promise.all(results.map((result) => result.refetch()))
+        return { isSuccess: refetched.every((result) => result.isSuccess) }
+      },
+    }),
+  })
+}
+
+// Loads a range on demand (e.g. for exports) through the same per-day cache
+export function useHistoryFetcher({ config, stationId }: StationQueryConfig) {
+  const { providerId, provider } = resolveProvider(config, stationId)
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    async (dates: Date[], granularity: HistoryGranularity) => {
+      const days = await Promise.all(
+        dates.map((date) =>
+          queryClient.fetchQuery(
+            historyOptions(providerId, provider, stationId, date, granularity)
+          )
+        )
+      )
+      return days.flat().sort((a, b) => a.epoch - b.epoch)
+    },
+    [provider, providerId, queryClient, stationId]
+  )
+}
+
+// Weather.com's v3 forecast for the station's coordinates; needs a
+// Weather.com key even when the station itself comes from another provider
+export function useWeatherComForecast(
+  { config, stationId }: StationQueryConfig,
+  location: ForecastLocation | null
+) {
+  const { apiKey } = getProviderCredentials(config, "weathercom")
+  const providerId = getStationProvider(config, stationId)
+  const target = location ?? { lat: 0, lon: 0 }
+
+  return useQuery({
+    queryKey: weatherKeys.forecast(providerId, stationId, target),
+    queryFn: async () => {
+      const client = createWeatherComClient({ apiKey })
+      const [daily, hourly] = await Promise.all([
+        client.getDailyForecast(target),
+        client.getHourlyForecast(target),
+      ])
+      return { daily, hourly }
+    },
+    enabled: Boolean(apiKey && location),
+    staleTime: 30 * MINUTE,
+    gcTime: 60 * MINUTE,
+    retry,
+  })
+}
@@ -0,0 +1,225 @@
+import type { ProviderId } from '@/lib/providers';
+import {
+  CurrentObservation,
+  getLocalDate,
+  HistoryGranularity,
+  SummaryObservation,
+  toLocalDateKey
+} from '@/lib/pws';
+
+const DB_NAME = 'pws-archive';
+const DB_VERSION = 2;
+
+const OBSERVATIONS = 'observations';
+const SUMMARIES = 'summaries';
+// Days whose summaries are known to be complete, including days with no data
+const COVERAGE = 'coverage';
+
+// Live snapshots arrive every few minutes, so only the last month is kept
+const OBSERVATION_RETENTION_DAYS = 31;
+
+// Station ids are only unique within their provider, so every key starts
+// with the provider
+
+export interface ArchivedObservation {
+  provider: ProviderId;
+  stationID: string;
+  epoch: number;
+  date: string;
+  observation: CurrentObservation;
+}
+
+export interface ArchivedSummary {
+  provider: ProviderId;
+  stationID: string;
+  granularity: HistoryGranularity;
+  epoch: number;
+  date: string;
+  observation: SummaryObservation;
+}
+
+interface ArchivedCoverage {
+  provider: ProviderId;
+  stationID: string;
+  granularity: HistoryGranularity;
+  date: string;
+  archivedAt: number;
+}
+
+let archive: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openArchive = () => {
+  if (!archive) {
+    archive = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const createStores = () => {
+          db.createObjectStore(OBSERVATIONS, { keyPath: ['provider', 'stationID', 'epoch'] })
+            .createIndex('byDate', ['provider', 'stationID', 'date']);
+          db.createObjectStore(SUMMARIES, { keyPath: ['provider', 'stationID', 'granularity', 'epoch'] })
+            .createIndex('byDate', ['provider', 'stationID', 'granularity', 'date']);
+          db.createObjectStore(COVERAGE, { keyPath: ['provider', 'stationID', 'granularity', 'date'] });
+        };
+        if (!db.objectStoreNames.contains(OBSERVATIONS)) {
+          createStores();
+          return;
+        }
+
+        // Version 1 keyed records on the station id alone, from when
+        // Weather.com was the only provider; they are copied over as such
+        const stores = [OBSERVATIONS, SUMMARIES, COVERAGE];
+        const upgrade = request.transaction;
+        const records: Record<string, object[]> = {};
+        stores.forEach((name) => {
+          const read = upgrade.objectStore(name).getAll();
+          read.onsuccess = () => {
+            records[name] = read.result;
+            if (Object.keys(records).length < stores.length) return;
+            stores.forEach((store) => db.deleteObjectStore(store));
+            createStores();
+            stores.forEach((store) =>
+              records[store].forEach((record) => upgrade.objectStore(store).put({ ...record, provider: 'weathercom' }))
+            );
+          };
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again rather than caching the failure
+    archive.catch(() => {
+      archive = null;
+    });
+  }
+  return archive;
+};
+
+// Partial periods are revised as they fill up, so summaries are keyed on the
+// start of the period they cover rather than on their last observation
+const getPeriodEpoch = (observation: SummaryObservation, granularity: HistoryGranularity) => {
+  if (granularity === 'all') return observation.epoch;
+  const period = granularity === 'daily' ? observation.obsTimeLocal.slice(0, 10) : observation.obsTimeLocal.slice(0, 13);
+  const [date, hour = '00'] = period.split(' ');
+  return Date.parse(`${date}T${hour}:00:00Z`) / 1000;
+};
+
+// Older snapshots of the same station are pruned on every write
+export const archiveObservation = async (provider: ProviderId, observation: CurrentObservation) => {
+  const db = await openArchive();
+  const transaction = db.transaction(OBSERVATIONS, 'readwrite');
+  const store = transaction.objectStore(OBSERVATIONS);
+  // Current observations carry no epoch field of their own
+  const epoch = Math.floor(Date.parse(observation.obsTimeUtc) / 1000);
+  const record: ArchivedObservation = {
+    provider,
+    stationID: observation.stationID,
+    epoch,
+    date: getLocalDate(observation),
+    observation
+  };
+  store.put(record);
+  const cutoff = epoch - OBSERVATION_RETENTION_DAYS * 24 * 60 * 60;
+  store.delete(
+    IDBKeyRange.bound([provider, observation.stationID, 0], [provider, observation.stationID, cutoff], false, true)
+  );
+  await completion(transaction);
+};
+
+export const readArchivedObservations = async (
+  provider: ProviderId,
+  stationId: string,
+  date: Date
+): Promise<CurrentObservation[]> => {
+  const db = await openArchive();
+  const store = db.transaction(OBSERVATIONS, 'readonly').objectStore(OBSERVATIONS);
+  const records: ArchivedObservation[] = await promisify(
+    store.index('byDate').getAll([provider, stationId, toLocalDateKey(date)])
+  );
+  return records.sort((a, b) => a.epoch - b.epoch).map((record) => record.observation);
+};
+
+// Marking a day complete replaces whatever was archived for it before, so
+// partial imports or live snapshots do not linger next to the full day
+export const archiveSummaries = async (
+  provider: ProviderId,
+  stationId: string,
+  granularity: HistoryGranularity,
+  observations: SummaryObservation[],
+  completeDates: string[] = []
+) => {
+  const db = await openArchive();
+  const transaction = db.transaction([SUMMARIES, COVERAGE], 'readwrite');
+  const summaries = transaction.objectStore(SUMMARIES);
+  const coverage = transaction.objectStore(COVERAGE);
+
+  const staleKeys = await Promise.all(
+    completeDates.map((date) => promisify(summaries.index('byDate').getAllKeys([provider, stationId, granularity, date])))
+  );
+  staleKeys.flat().forEach((key) => summaries.delete(key));
+
+  observations.forEach((observation) => {
+    const record: ArchivedSummary = {
+      provider,
+      stationID: stationId,
+      granularity,
+      epoch: getPeriodEpoch(observation, granularity),
+      date: getLocalDate(observation),
+      observation
+    };
+    summaries.put(record);
+  });
+  completeDates.forEach((date) => {
+    const record: ArchivedCoverage = { provider, stationID: stationId, granularity, date, archivedAt: Date.now() };
+    coverage.put(record);
+  });
+  await completion(transaction);
+};
+
+export const readCoveredDates = async (
+  provider: ProviderId,
+  stationId: string,
+  granularity: HistoryGranularity,
+  dates: string[]
+): Promise<Set<string>> => {
+  const db = await openArchive();
+  const store = db.transaction(COVERAGE, 'readonly').objectStore(COVERAGE);
+  const covered = await Promise.all(dates.map((date) => promisify(store.get([provider, stationId, granularity, date]))));
+  return new Set(dates.filter((_, index) => covered[index]));
+};
+
+// Returns null when the archive cannot vouch for the whole day
+export const readArchivedDay = async (
+  provider: ProviderId,
+  stationId: string,
+  granularity: HistoryGranularity,
+  date: Date
+): Promise<SummaryObservation[] | null> => {
+  const db = await openArchive();
+  const dateKey = toLocalDateKey(date);
+  const transaction = db.transaction([SUMMARIES, COVERAGE], 'readonly');
+  const covered = await promisify(transaction.objectStore(COVERAGE).get([provider, stationId, granularity, dateKey]));
+  if (!covered) return null;
+
+  const records: ArchivedSummary[] = await promisify(
+    transaction.objectStore(SUMMARIES).index('byDate').getAll([provider, stationId, granularity, dateKey])
+  );
+  return records.map((record) => record.observation).sort((a, b) => a.epoch - b.epoch);
+};
@@ -0,0 +1,44 @@
+import type { CurrentObservation, Reading } from '@/lib/pws';
+import type { MetricKind } from '@/lib/units';
+
+export interface ComparisonMetric {
+  key: string;
+  label: string;
+  kind: MetricKind;
+  read: (observation: CurrentObservation) => Reading;
+}
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  { key: 'temp', label: 'Temperature', kind: 'temperature', read: (o) => o.metric.temp },
+  { key: 'dewpt', label: 'Dew Point', kind: 'temperature', read: (o) => o.metric.dewpt },
+  { key: 'humidity', label: 'Humidity', kind: 'humidity', read: (o) => o.humidity },
+  { key: 'windSpeed', label: 'Wind Speed', kind: 'wind', read: (o) => o.metric.windSpeed },
+  { key: 'windGust', label: 'Wind Gust', kind: 'wind', read: (o) => o.metric.windGust },
+  { key: 'pressure', label: 'Pressure', kind: 'pressure', read: (o) => o.metric.pressure },
+  { key: 'precipRate', label: 'Precip Rate', kind: 'rainRate', read: (o) => o.metric.precipRate },
+  { key: 'precipTotal', label: 'Precip Total', kind: 'rain', read: (o) => o.metric.precipTotal }
+];
+
+export interface MetricRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Min/max are only meaningful when at least two stations report the metric
+export const getMetricRange = (values: Reading[]): MetricRange => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) return { min: null, max: null };
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  return min === max ? { min: null, max: null } : { min, max };
+};
+
+export const getDelta = (value: Reading, reference: Reading) =>
+  value === null || reference === null ? null : value - reference;
+
+export const parseStationList = (value: string | null) =>
+  (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id, index, ids) => id && ids.indexOf(id) === index);
@@ -0,0 +1,220 @@
+import {
+  CredentialStore,
+  getStationLabel,
+  normalizeCredentials,
+  normalizeStations,
+  StationEntry,
+  WeatherConfigData
+} from '@/lib/config';
+import { CONFIG_VERSION, migrateStoredConfig } from '@/lib/config-storage';
+import { PROVIDERS, ProviderId } from '@/lib/providers';
+import {
+  isUnitPreferences,
+  METRIC_UNITS,
+  PRESSURE_UNITS,
+  RAIN_UNITS,
+  TEMPERATURE_UNITS,
+  UnitPreferences,
+  WIND_UNITS
+} from '@/lib/units';
+
+export const SHARE_FRAGMENT_KEY = 'setup';
+
+// The part of a configuration that moves between browsers. Remember Me and
+// passphrase protection stay a choice of each device.
+export interface SharedConfig {
+  stations: StationEntry[];
+  activeStationId: string;
+  units: UnitPreferences;
+  // Only present when the user chose to share their credentials
+  credentials?: CredentialStore;
+}
+
+export interface ConfigChange {
+  type: 'added' | 'removed' | 'changed';
+  label: string;
+  detail: string;
+}
+
+export class SharedConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharedConfigError';
+  }
+}
+
+// Blank station rows and credentials no station uses are left out
+export const toSharedConfig = (config: WeatherConfigData, includeCredentials: boolean): SharedConfig => {
+  const stations = normalizeStations(config.stations);
+  const providers = new Set(stations.map((station) => station.provider));
+  return {
+    stations,
+    activeStationId: stations.some((station) => station.id === config.activeStationId)
+      ? config.activeStationId
+      : stations[0]?.id ?? '',
+    units: config.units,
+    ...(includeCredentials
+      ? {
+          credentials: Object.fromEntries(
+            Object.entries(config.credentials).filter(([provider]) => providers.has(provider as ProviderId))
+          )
+        }
+      : {})
+  };
+};
+
+// Written with the storage version so older exports go through the same migrations
+const toPayload = (shared: SharedConfig) => ({ version: CONFIG_VERSION, ...shared });
+
+export const serializeSharedConfig = (shared: SharedConfig) => JSON.stringify(toPayload(shared), null, 2);
+
+export const getSharedConfigFilename = (date = new Date()) =>
+  `weather-station-setup_${date.toISOString().slice(0, 10)}.json`;
+
+const fromPayload = (raw: unknown): SharedConfig => {
+  const stored = migrateStoredConfig(raw);
+  if (!stored) {
+    throw new SharedConfigError('This is not a weather station setup, or it was made by a newer version of the app');
+  }
+  const stations = normalizeStations(stored.stations);
+  if (stations.length === 0) {
+    throw new SharedConfigError('The setup does not contain any stations');
+  }
+  const credentials = normalizeCredentials(stored.credentials);
+  return {
+    stations,
+    activeStationId: stations.some((station) => station.id === stored.activeStationId)
+      ? (stored.activeStationId as string)
+      : stations[0].id,
+    units: isUnitPreferences(stored.units) ? stored.units : METRIC_UNITS,
+    ...(Object.keys(credentials).length > 0 ? { credentials } : {})
+  };
+};
+
+export const parseSharedConfig = (text: string): SharedConfig => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new SharedConfigError('The file is not valid JSON');
+  }
+  return fromPayload(raw);
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+const pipeBytes = (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer();
+
+// Deflated and base64url-encoded so a handful of stations fits in a chat message
+export const encodeShareFragment = async (shared: SharedConfig) => {
+  const json = new TextEncoder().encode(JSON.stringify(toPayload(shared)));
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_FRAGMENT_KEY}=${toBase64Url(new Uint8Array(compressed))}`;
+};
+
+// Returns null when the hash is not a share link
+export const decodeShareFragment = async (hash: string): Promise<SharedConfig | null> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(SHARE_FRAGMENT_KEY);
+  if (!encoded) return null;
+
+  let raw: unknown;
+  try {
+    const json = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    raw = JSON.parse(new TextDecoder().decode(json));
+  } catch (err) {
+    throw new SharedConfigError('The setup link is incomplete or damaged');
+  }
+  return fromPayload(raw);
+};
+
+// The fragment never reaches the server, so shared credentials stay between
+// the two browsers
+export const getShareLink = async (shared: SharedConfig, origin = window.location.origin) =>
+  `${origin}/settings#${await encodeShareFragment(shared)}`;
+
+const UNIT_FIELDS: { key: keyof UnitPreferences; label: string; names: Record<string, string> }[] = [
+  { key: 'temperature', label: 'Temperature unit', names: TEMPERATURE_UNITS },
+  { key: 'wind', label: 'Wind unit', names: WIND_UNITS },
+  { key: 'pressure', label: 'Pressure unit', names: PRESSURE_UNITS },
+  { key: 'rain', label: 'Rain unit', names: RAIN_UNITS }
+];
+
+const describeStation = (station: StationEntry) =>
+  [station.name.trim(), PROVIDERS[station.provider].label].filter(Boolean).join(' • ');
+
+// What importing `incoming` would change in `current`; credentials are only
+// reported as replaced, never shown
+export const diffSharedConfig = (current: SharedConfig, incoming: SharedConfig): ConfigChange[] => {
+  const changes: ConfigChange[] = [];
+  const key = (station: StationEntry) => station.id.trim().toUpperCase();
+  const existing = new Map(current.stations.filter((station) => station.id.trim()).map((station) => [key(station), station]));
+  const incomingKeys = new Set(incoming.stations.map(key));
+
+  for (const station of incoming.stations) {
+    const before = existing.get(key(station));
+    const label = `Station ${station.id}`;
+    if (!before) {
+      changes.push({ type: 'added', label, detail: describeStation(station) });
+      continue;
+    }
+    const details = [
+      before.name.trim() !== station.name.trim() && `name "${before.name.trim()}" → "${station.name.trim()}"`,
+      before.provider !== station.provider &&
+        `provider ${PROVIDERS[before.provider].label} → ${PROVIDERS[station.provider].label}`
+    ].filter(Boolean);
+    if (details.length > 0) changes.push({ type: 'changed', label, detail: details.join(', ') });
+  }
+
+  for (const [stationKey, station] of existing) {
+    if (!incomingKeys.has(stationKey)) {
+      changes.push({ type: 'removed', label: `Station ${station.id}`, detail: describeStation(station) });
+    }
+  }
+
+  if (existing.size > 0 && current.activeStationId.toUpperCase() !== incoming.activeStationId.toUpperCase()) {
+    const active = incoming.stations.find((station) => station.id === incoming.activeStationId);
+    changes.push({
+      type: 'changed',
+      label: 'Default station',
+      detail: active ? getStationLabel(active) : incoming.activeStationId
+    });
+  }
+
+  for (const { key: unit, label, names } of UNIT_FIELDS) {
+    if (current.units[unit] !== incoming.units[unit]) {
+      changes.push({
+        type: 'changed',
+        label,
+        detail: `${names[current.units[unit]]} → ${names[incoming.units[unit]]}`
+      });
+    }
+  }
+
+  for (const [provider, values] of Object.entries(incoming.credentials ?? {}) as [ProviderId, Record<string, string>][]) {
+    const before = current.credentials?.[provider];
+    if (JSON.stringify(before ?? {}) === JSON.stringify(values)) continue;
+    const hasBefore = before && Object.values(before).some((value) => value.trim());
+    changes.push({
+      type: hasBefore ? 'changed' : 'added',
+      label: `${PROVIDERS[provider].label} credentials`,
+      detail: hasBefore ? 'Replaced with the shared credentials' : 'Taken from the shared setup'
+    });
+  }
+
+  return changes;
+};
+
+// Credentials the setup leaves out keep their current values
+export const applySharedConfig = (config: WeatherConfigData, shared: SharedConfig): WeatherConfigData => ({
+  ...config,
+  stations: shared.stations,
+  activeStationId: shared.activeStationId,
+  units: shared.units,
+  credentials: { ...config.credentials, ...shared.credentials }
+});
@@ -0,0 +1,119 @@
+import { normalizeConfig, WeatherConfigData } from '@/lib/config';
+import { METRIC_UNITS } from '@/lib/units';
+
+export const CONFIG_STORAGE_KEY = 'weatherConfig';
+
+// Bump together with a new entry in MIGRATIONS whenever the saved shape changes
+export const CONFIG_VERSION = 4;
+
+type StoredConfig = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredConfig =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Each migration upgrades a save from its key's version to the next one.
+// Saves written before the version field existed count as version 1.
+const MIGRATIONS: Record<number, (stored: StoredConfig) => StoredConfig> = {
+  // A single `stationId` became a named station list
+  1: ({ stationId, ...stored }) => ({
+    ...stored,
+    stations: Array.isArray(stored.stations)
+      ? stored.stations
+      : typeof stationId === 'string'
+        ? [{ id: stationId, name: '' }]
+        : [],
+    activeStationId: stored.activeStationId ?? stationId
+  }),
+  // Stations name their provider and the Weather.com `apiKey` moved into per-provider credentials
+  2: ({ apiKey, ...stored }) => ({
+    ...stored,
+    stations: Array.isArray(stored.stations)
+      ? stored.stations.map((station) => (isRecord(station) ? { provider: 'weathercom', ...station } : station))
+      : [],
+    credentials: isRecord(stored.credentials)
+      ? stored.credentials
+      : typeof apiKey === 'string'
+        ? { weathercom: { apiKey } }
+        : {}
+  }),
+  // Unit preferences were added with metric as the default
+  3: (stored) => ({ units: METRIC_UNITS, ...stored })
+};
+
+// Brings a parsed save up to the current shape; null when it is not an
+// object or comes from a newer version than this build knows
+export const migrateStoredConfig = (raw: unknown): StoredConfig | null => {
+  if (!isRecord(raw)) return null;
+
+  let { version = 1, ...stored } = raw;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > CONFIG_VERSION) {
+    return null;
+  }
+  for (; version < CONFIG_VERSION; version++) {
+    stored = MIGRATIONS[version](stored);
+  }
+  return stored;
+};
+
+// Returns null for anything that is not a config this build understands,
+// including hand-edited or damaged saves
+export const parseStoredConfig = (text: string): WeatherConfigData | null => {
+  try {
+    return normalizeConfig(migrateStoredConfig(JSON.parse(text)));
+  } catch (err) {
+    return null;
+  }
+};
+
+const readConfig = (storage: Storage) => {
+  const saved = storage.getItem(CONFIG_STORAGE_KEY);
+  if (!saved) return null;
+  const config = parseStoredConfig(saved);
+  if (!config) storage.removeItem(CONFIG_STORAGE_KEY);
+  return config;
+};
+
+// Remembered configurations go to localStorage; the rest only live as long
+// as the browser tab
+export const loadConfig = (): WeatherConfigData | null => readConfig(localStorage) ?? readConfig(sessionStorage);
+
+export const saveConfig = (config: WeatherConfigData) => {
+  if (config.rememberMe) {
+    // Encrypted credentials are never written in the clear
+    const stored = config.encryption ? { ...config, credentials: {} } : config;
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ version: CONFIG_VERSION, ...stored }));
+    sessionStorage.removeItem(CONFIG_STORAGE_KEY);
+  } else {
+    sessionStorage.setItem(
+      CONFIG_STORAGE_KEY,
+      JSON.stringify({ version: CONFIG_VERSION, ...config, encryption: undefined })
+    );
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+  }
+};
+
+export const clearConfig = () => {
+  localStorage.removeItem(CONFIG_STORAGE_KEY);
+  sessionStorage.removeItem(CONFIG_STORAGE_KEY);
+};
+
+// Calls back when another tab saves or clears the remembered configuration.
+// Saves this build cannot read (e.g. from a newer tab) are ignored rather
+// than treated as a sign-out.
+export const subscribeToConfig = (listener: (config: WeatherConfigData | null) => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    if (event.key !== CONFIG_STORAGE_KEY && event.key !== null) return;
+
+    const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!saved) {
+      listener(null);
+      return;
+    }
+    const config = parseStoredConfig(saved);
+    if (config) listener(config);
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,106 @@
+import {
+  DEFAULT_PROVIDER,
+  hasCredentials,
+  isProviderId,
+  ProviderCredentials,
+  ProviderId
+} from '@/lib/providers';
+import { isUnitPreferences, METRIC_UNITS, UnitPreferences } from '@/lib/units';
+import { decryptCredentials, EncryptedCredentials, isEncryptedCredentials } from '@/lib/vault';
+
+export interface StationEntry {
+  id: string;
+  name: string;
+  provider: ProviderId;
+}
+
+export type CredentialStore = Partial<Record<ProviderId, ProviderCredentials>>;
+
+export interface WeatherConfigData {
+  credentials: CredentialStore;
+  stations: StationEntry[];
+  activeStationId: string;
+  units: UnitPreferences;
+  rememberMe: boolean;
+  // Present when the credentials are kept encrypted with a passphrase; the
+  // in-memory credentials are empty until the config is unlocked
+  encryption?: EncryptedCredentials;
+}
+
+export const getActiveStation = (config: WeatherConfigData): StationEntry =>
+  config.stations.find((station) => station.id === config.activeStationId) ?? config.stations[0];
+
+export const getStationLabel = (station: StationEntry) => station.name.trim() || station.id;
+
+// Stations that are not configured (e.g. typed into the comparison) use the default provider
+export const getStationProvider = (config: WeatherConfigData, stationId: string): ProviderId =>
+  config.stations.find((station) => station.id === stationId)?.provider ?? DEFAULT_PROVIDER;
+
+export const getProviderCredentials = (config: WeatherConfigData, provider: ProviderId): ProviderCredentials =>
+  config.credentials[provider] ?? {};
+
+// Changes whenever a station would be fetched differently
+export const getConnectionKey = (config: WeatherConfigData) =>
+  JSON.stringify([config.credentials, config.stations.map((station) => [station.id, station.provider])]);
+
+export const normalizeCredentials = (raw: unknown): CredentialStore => {
+  if (!raw || typeof raw !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>)
+      .filter(([provider, values]) => isProviderId(provider) && values && typeof values === 'object')
+      .map(([provider, values]) => [
+        provider,
+        Object.fromEntries(
+          Object.entries(values as Record<string, unknown>).filter(([, value]) => typeof value === 'string')
+        )
+      ])
+  );
+};
+
+export const normalizeStations = (raw: unknown): StationEntry[] =>
+  (Array.isArray(raw) ? (raw as Partial<StationEntry>[]) : [])
+    .filter((station) => station && typeof station.id === 'string' && station.id.trim())
+    .map((station) => ({
+      id: station.id.trim(),
+      name: typeof station.name === 'string' ? station.name : '',
+      provider: isProviderId(station.provider) ? station.provider : DEFAULT_PROVIDER
+    }));
+
+// Validates a config in the current shape; older saves are brought up to
+// date by the migrations in config-storage first
+export const normalizeConfig = (raw: unknown): WeatherConfigData | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Partial<WeatherConfigData>;
+
+  const stations = normalizeStations(value.stations);
+  const credentials = normalizeCredentials(value.credentials);
+
+  const encryption = isEncryptedCredentials(value.encryption) ? value.encryption : undefined;
+
+  if (
+    stations.length === 0 ||
+    (!encryption && !stations.every((station) => hasCredentials(station.provider, credentials[station.provider])))
+  ) {
+    return null;
+  }
+
+  const activeStationId = stations.some((station) => station.id === value.activeStationId)
+    ? value.activeStationId
+    : stations[0].id;
+
+  return {
+    credentials,
+    stations,
+    activeStationId,
+    units: isUnitPreferences(value.units) ? value.units : METRIC_UNITS,
+    rememberMe: Boolean(value.rememberMe),
+    ...(encryption ? { credentials: {}, encryption } : {})
+  };
+};
+
+// Throws VaultError when the passphrase is wrong
+export const unlockConfig = async (config: WeatherConfigData, passphrase: string): Promise<WeatherConfigData> => {
+  if (!config.encryption) return config;
+  const credentials = normalizeCredentials(await decryptCredentials(config.encryption, passphrase));
+  return { ...config, credentials };
+};
@@ -0,0 +1,55 @@
+import { formatDistanceToNow } from 'date-fns';
+import type { WeatherProvider } from '@/lib/providers';
+import {
+  CurrentObservation,
+  PwsAuthError,
+  PwsEmptyPayloadError,
+  PwsNetworkError,
+  PwsStationNotFoundError
+} from '@/lib/pws';
+
+export type ConnectionStatus = 'ok' | 'offline' | 'badCredentials' | 'unknownStation' | 'unreachable' | 'error';
+
+export interface ConnectionResult {
+  status: ConnectionStatus;
+  message: string;
+  observation?: CurrentObservation;
+}
+
+// A station that has not reported for this long counts as offline
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+// Saving with these would only lead to the dashboard's error screen; the
+// rest may clear up on their own, so they are reported but not blocking
+export const isHardFailure = (result: ConnectionResult) =>
+  result.status === 'badCredentials' || result.status === 'unknownStation';
+
+export const testStationConnection = async (
+  provider: WeatherProvider,
+  stationId: string,
+  now = new Date()
+): Promise<ConnectionResult> => {
+  try {
+    const observation = await provider.getCurrent(stationId);
+    const reportedAt = new Date(observation.obsTimeUtc);
+    if (now.getTime() - reportedAt.getTime() > STALE_AFTER_MS) {
+      return {
+        status: 'offline',
+        message: `Last report ${formatDistanceToNow(reportedAt, { addSuffix: true })}`,
+        observation
+      };
+    }
+    return { status: 'ok', message: 'Connected', observation };
+  } catch (error) {
+    if (error instanceof PwsAuthError) {
+      return { status: 'badCredentials', message: 'The credentials were rejected' };
+    } else if (error instanceof PwsStationNotFoundError) {
+      return { status: 'unknownStation', message: 'No station with this ID exists' };
+    } else if (error instanceof PwsEmptyPayloadError) {
+      return { status: 'offline', message: 'The station exists but is not reporting' };
+    } else if (error instanceof PwsNetworkError) {
+      return { status: 'unreachable', message: 'Could not reach the provider to check' };
+    }
+    return { status: 'error', message: error instanceof Error ? error.message : 'The check failed' };
+  }
+};
@@ -0,0 +1,154 @@
+import type { Reading } from '@/lib/pws';
+import type { MetricSnapshot } from '@/lib/snapshot';
+
+// Everything here works in the metric units the PWS model stores:
+// °C, % relative humidity and km/h
+
+// The heat index is only defined for warm conditions and wind chill for cold,
+// windy ones; the Bureau of Meteorology formula covers the range in between
+export const HEAT_INDEX_MIN_TEMP = 27;
+export const WIND_CHILL_MAX_TEMP = 10;
+export const WIND_CHILL_MIN_WIND = 4.8;
+
+export type ApparentTemperatureMethod = 'heatIndex' | 'windChill' | 'bom' | 'air';
+
+export interface ApparentTemperature {
+  value: Reading;
+  method: ApparentTemperatureMethod;
+}
+
+export interface DerivedMetrics {
+  apparent: ApparentTemperature;
+  humidex: Reading;
+  wetBulb: Reading;
+  // g/m³
+  absoluteHumidity: Reading;
+}
+
+export type DerivedMetricsInput = Pick<MetricSnapshot, 'temp' | 'dewpt' | 'humidity' | 'windSpeed'>;
+
+export const APPARENT_TEMPERATURE_METHODS: Record<ApparentTemperatureMethod, { label: string; formula: string }> = {
+  heatIndex: {
+    label: 'Heat index',
+    formula: `NWS heat index (Rothfusz regression), used from ${HEAT_INDEX_MIN_TEMP}°C when humidity makes it feel hotter`
+  },
+  windChill: {
+    label: 'Wind chill',
+    formula: `North American wind chill index, used at ${WIND_CHILL_MAX_TEMP}°C and below with wind over ${WIND_CHILL_MIN_WIND} km/h`
+  },
+  bom: {
+    label: 'Apparent temperature',
+    formula: 'Australian BoM apparent temperature: T + 0.33 × vapour pressure − 0.70 × wind (m/s) − 4.0'
+  },
+  air: {
+    label: 'Air temperature',
+    formula: 'Humidity or wind is not reported, so no adjustment was made'
+  }
+};
+
+export const DERIVED_METRIC_FORMULAS = {
+  humidex: 'Environment Canada humidex: T + 0.5555 × (vapour pressure at the dew point − 10)',
+  wetBulb: 'Stull (2011) wet-bulb approximation from temperature and relative humidity, valid for 5–99% humidity',
+  absoluteHumidity: 'Water vapour per cubic metre of air, from the saturation vapour pressure (Magnus formula)'
+};
+
+const toFahrenheit = (celsius: number) => (celsius * 9) / 5 + 32;
+const toCelsius = (fahrenheit: number) => ((fahrenheit - 32) * 5) / 9;
+
+// Saturation vapour pressure in hPa (Magnus, over water)
+const saturationVapourPressure = (tempC: number) => 6.112 * Math.exp((17.67 * tempC) / (tempC + 243.5));
+
+// Actual vapour pressure in hPa
+const vapourPressure = (tempC: number, humidity: number) => (humidity / 100) * saturationVapourPressure(tempC);
+
+const dewpointFromHumidity = (tempC: number, humidity: number) => {
+  const gamma = Math.log(humidity / 100) + (17.67 * tempC) / (tempC + 243.5);
+  return (243.5 * gamma) / (17.67 - gamma);
+};
+
+export const heatIndex = (tempC: Reading, humidity: Reading): Reading => {
+  if (tempC === null || humidity === null) return null;
+  const t = toFahrenheit(tempC);
+  const rh = humidity;
+
+  // Steadman's simple estimate is used until it reaches 80°F
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((simple + t) / 2 < 80) return toCelsius(simple);
+
+  let hi =
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh;
+  if (rh < 13 && t >= 80 && t <= 112) {
+    hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t >= 80 && t <= 87) {
+    hi += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+  return toCelsius(hi);
+};
+
+export const windChill = (tempC: Reading, windKmh: Reading): Reading => {
+  if (tempC === null || windKmh === null) return null;
+  const v = Math.pow(windKmh, 0.16);
+  return 13.12 + 0.6215 * tempC - 11.37 * v + 0.3965 * tempC * v;
+};
+
+export const bomApparentTemperature = (tempC: Reading, humidity: Reading, windKmh: Reading): Reading => {
+  if (tempC === null || humidity === null || windKmh === null) return null;
+  return tempC + 0.33 * vapourPressure(tempC, humidity) - 0.7 * (windKmh / 3.6) - 4.0;
+};
+
+export const apparentTemperature = ({ temp, humidity, windSpeed }: DerivedMetricsInput): ApparentTemperature => {
+  if (temp === null) return { value: null, method: 'air' };
+  if (temp >= HEAT_INDEX_MIN_TEMP && humidity !== null) {
+    return { value: heatIndex(temp, humidity), method: 'heatIndex' };
+  }
+  if (temp <= WIND_CHILL_MAX_TEMP && windSpeed !== null && windSpeed > WIND_CHILL_MIN_WIND) {
+    return { value: windChill(temp, windSpeed), method: 'windChill' };
+  }
+  if (humidity !== null && windSpeed !== null) {
+    return { value: bomApparentTemperature(temp, humidity, windSpeed), method: 'bom' };
+  }
+  return { value: temp, method: 'air' };
+};
+
+// Uses the reported dew point, or one derived from humidity when it is missing
+export const humidex = (tempC: Reading, dewpointC: Reading, humidity: Reading = null): Reading => {
+  if (tempC === null) return null;
+  const dewpoint = dewpointC ?? (humidity !== null && humidity > 0 ? dewpointFromHumidity(tempC, humidity) : null);
+  if (dewpoint === null) return null;
+  const e = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / (273.15 + dewpoint)));
+  return tempC + 0.5555 * (e - 10);
+};
+
+export const wetBulbTemperature = (tempC: Reading, humidity: Reading): Reading => {
+  if (tempC === null || humidity === null) return null;
+  const rh = Math.min(Math.max(humidity, 5), 99);
+  return (
+    tempC * Math.atan(0.151977 * Math.sqrt(rh + 8.313659)) +
+    Math.atan(tempC + rh) -
+    Math.atan(rh - 1.676331) +
+    0.00391838 * Math.pow(rh, 1.5) * Math.atan(0.023101 * rh) -
+    4.686035
+  );
+};
+
+export const absoluteHumidity = (tempC: Reading, humidity: Reading): Reading => {
+  if (tempC === null || humidity === null) return null;
+  // Ideal gas law for water vapour, ρ = e / (Rv × T), with e in Pa (× 100),
+  // ρ in g/m³ (× 1000) and Rv = 461.5 J/(kg·K)
+  return (100 * 1000 * vapourPressure(tempC, humidity)) / (461.5 * (273.15 + tempC));
+};
+
+export const deriveMetrics = (snapshot: DerivedMetricsInput): DerivedMetrics => ({
+  apparent: apparentTemperature(snapshot),
+  humidex: humidex(snapshot.temp, snapshot.dewpt, snapshot.humidity),
+  wetBulb: wetBulbTemperature(snapshot.temp, snapshot.humidity),
+  absoluteHumidity: absoluteHumidity(snapshot.temp, snapshot.humidity)
+});
@@ -0,0 +1,124 @@
+import type { HistoryGranularity, Reading, SummaryObservation } from '@/lib/pws';
+import { convertMetric, getMetricDecimals, getMetricUnit, MetricKind, UnitFormatter } from '@/lib/units';
+
+export interface ExportMetadata {
+  stationId: string;
+  stationName: string;
+  granularity: HistoryGranularity;
+  from: string;
+  to: string;
+}
+
+interface ExportColumn {
+  name: string;
+  read: (observation: SummaryObservation) => Reading;
+  // Columns without a kind are written as reported, in the given unit
+  kind?: MetricKind;
+  unit?: string;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { name: 'temp_high', kind: 'temperature', read: (o) => o.metric.tempHigh },
+  { name: 'temp_low', kind: 'temperature', read: (o) => o.metric.tempLow },
+  { name: 'temp_avg', kind: 'temperature', read: (o) => o.metric.tempAvg },
+  { name: 'dewpt_high', kind: 'temperature', read: (o) => o.metric.dewptHigh },
+  { name: 'dewpt_low', kind: 'temperature', read: (o) => o.metric.dewptLow },
+  { name: 'dewpt_avg', kind: 'temperature', read: (o) => o.metric.dewptAvg },
+  { name: 'humidity_high', kind: 'humidity', read: (o) => o.humidityHigh },
+  { name: 'humidity_low', kind: 'humidity', read: (o) => o.humidityLow },
+  { name: 'humidity_avg', kind: 'humidity', read: (o) => o.humidityAvg },
+  { name: 'windspeed_high', kind: 'wind', read: (o) => o.metric.windspeedHigh },
+  { name: 'windspeed_avg', kind: 'wind', read: (o) => o.metric.windspeedAvg },
+  { name: 'windgust_high', kind: 'wind', read: (o) => o.metric.windgustHigh },
+  { name: 'winddir_avg', unit: '°', read: (o) => o.winddirAvg },
+  { name: 'pressure_max', kind: 'pressure', read: (o) => o.metric.pressureMax },
+  { name: 'pressure_min', kind: 'pressure', read: (o) => o.metric.pressureMin },
+  { name: 'precip_rate', kind: 'rainRate', read: (o) => o.metric.precipRate },
+  { name: 'precip_total', kind: 'rain', read: (o) => o.metric.precipTotal },
+  { name: 'uv_high', read: (o) => o.uvHigh },
+  { name: 'solar_radiation_high', unit: 'W/m²', read: (o) => o.solarRadiationHigh }
+];
+
+type Cell = string | number | null;
+
+// Quotes only the cells that need it, per RFC 4180
+const escapeCell = (cell: Cell) => {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) => rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+
+const getColumnHeader = (column: ExportColumn, units: UnitFormatter) => {
+  const { kind } = column;
+  const unit = kind ? getMetricUnit({ kind }, units) : column.unit;
+  return unit ? `${column.name} [${unit}]` : column.name;
+};
+
+const getColumnValue = (column: ExportColumn, observation: SummaryObservation, units: UnitFormatter) => {
+  const { kind } = column;
+  const value = column.read(observation);
+  if (!kind || value === null) return value;
+  const converted = convertMetric({ kind }, value, units);
+  return converted === null ? null : Number(converted.toFixed(getMetricDecimals({ kind }, units)));
+};
+
+export const observationsToCsv = (
+  observations: SummaryObservation[],
+  metadata: ExportMetadata,
+  units: UnitFormatter
+) => {
+  const header = [
+    'station_id',
+    'station_name',
+    'time_utc',
+    'time_local',
+    'timezone',
+    'latitude',
+    'longitude',
+    ...EXPORT_COLUMNS.map((column) => getColumnHeader(column, units))
+  ];
+  const rows = observations.map((observation) => [
+    metadata.stationId,
+    metadata.stationName,
+    new Date(observation.obsTimeUtc).toISOString(),
+    observation.obsTimeLocal,
+    observation.tz,
+    observation.lat,
+    observation.lon,
+    ...EXPORT_COLUMNS.map((column) => getColumnValue(column, observation, units))
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+// The JSON dump keeps the API payload untouched, in metric units
+export const observationsToJson = (observations: SummaryObservation[], metadata: ExportMetadata) =>
+  JSON.stringify(
+    {
+      station: { id: metadata.stationId, name: metadata.stationName },
+      granularity: metadata.granularity,
+      range: { from: metadata.from, to: metadata.to },
+      units: 'metric',
+      exportedAt: new Date().toISOString(),
+      observations
+    },
+    null,
+    2
+  );
+
+export const getExportFilename = (metadata: ExportMetadata, extension: 'csv' | 'json') => {
+  const range = metadata.from === metadata.to ? metadata.from : `${metadata.from}_${metadata.to}`;
+  return `${metadata.stationId}_${metadata.granularity}_${range}.${extension}`;
+};
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
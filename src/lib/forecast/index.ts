@@ -0,0 +1,31 @@
+import type { CurrentObservation } from '@/lib/pws';
+import { createMockForecastSource } from './mock';
+import { createOpenMeteoSource } from './open-meteo';
+import type { ForecastLocation, ForecastSource } from './types';
+
+export * from './mock';
+export * from './open-meteo';
+export * from './types';
+export * from './weather-codes';
+
+let source: ForecastSource | null = null;
+
+// VITE_FORECAST_SOURCE=mock swaps in generated data for offline work
+export const getForecastSource = () => {
+  if (!source) {
+    source = import.meta.env.VITE_FORECAST_SOURCE === 'mock' ? createMockForecastSource() : createOpenMeteoSource();
+  }
+  return source;
+};
+
+export const setForecastSource = (next: ForecastSource) => {
+  source = next;
+};
+
+// Stations that do not report coordinates have nothing to forecast for
+export const getForecastLocation = (
+  observation?: Pick<CurrentObservation, 'lat' | 'lon'>
+): ForecastLocation | null =>
+  observation && typeof observation.lat === 'number' && typeof observation.lon === 'number'
+    ? { lat: observation.lat, lon: observation.lon }
+    : null;
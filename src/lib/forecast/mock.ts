@@ -0,0 +1,55 @@
+import { addDays, eachDayOfInterval, getDayOfYear } from 'date-fns';
+import { parseLocalDate, toLocalDateKey } from '@/lib/pws';
+import type { Forecast, ForecastDay, ForecastHour, ForecastLocation, ForecastRange, ForecastSource } from './types';
+
+const CONDITIONS = [0, 1, 2, 3, 61, 80, 2];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Deterministic, plausible weather for a location and day, so views that show
+// forecasts can be developed and checked without network access
+const mockDay = ({ lat }: ForecastLocation, date: Date): ForecastDay => {
+  const season = Math.cos(((getDayOfYear(date) - 200) / 365) * 2 * Math.PI) * Math.sign(lat || 1);
+  const base = 25 - Math.abs(lat) * 0.3 + season * 8;
+  const weatherCode = CONDITIONS[getDayOfYear(date) % CONDITIONS.length];
+  const wet = weatherCode >= 61;
+  return {
+    date: toLocalDateKey(date),
+    weatherCode,
+    tempMax: round(base + 5 + Math.sin(getDayOfYear(date)) * 2),
+    tempMin: round(base - 4 + Math.cos(getDayOfYear(date)) * 2),
+    precipTotal: wet ? round(2 + (getDayOfYear(date) % 5) * 1.5) : 0,
+    precipProbability: wet ? 70 : 10,
+    windSpeedMax: round(12 + (getDayOfYear(date) % 4) * 4)
+  };
+};
+
+// Temperatures follow a daily curve from the low at 04:00 to the high at 16:00
+const mockHours = (day: ForecastDay): ForecastHour[] =>
+  Array.from({ length: 24 }, (_, hour) => {
+    const min = day.tempMin ?? 0;
+    const max = day.tempMax ?? 0;
+    const curve = (1 - Math.cos(((hour - 4) / 24) * 2 * Math.PI)) / 2;
+    return {
+      time: `${day.date} ${String(hour).padStart(2, '0')}:00`,
+      weatherCode: day.weatherCode,
+      temp: round(min + (max - min) * curve),
+      humidity: round(85 - 30 * curve),
+      precip: day.precipTotal ? round(day.precipTotal / 24) : 0,
+      windSpeed: round((day.windSpeedMax ?? 0) * (0.4 + 0.4 * curve))
+    };
+  });
+
+export const createMockForecastSource = (): ForecastSource => ({
+  id: 'mock',
+  getForecast: async (location: ForecastLocation, range?: ForecastRange): Promise<Forecast> => {
+    const start = range ? parseLocalDate(range.from) : new Date();
+    const end = range ? parseLocalDate(range.to) : addDays(start, 6);
+    const daily = eachDayOfInterval({ start, end }).map((date) => mockDay(location, date));
+    return {
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      daily,
+      hourly: daily.flatMap(mockHours)
+    };
+  }
+});
@@ -0,0 +1,107 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { z } from 'zod';
+import { parseLocalDate, requestJson } from '@/lib/pws';
+import type { Forecast, ForecastSource } from './types';
+
+export const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1';
+export const OPEN_METEO_HISTORICAL_URL = 'https://historical-forecast-api.open-meteo.com/v1';
+
+// The forecast API keeps past model runs for about three months; older
+// ranges come from the historical forecast archive instead
+const MAX_PAST_DAYS = 92;
+
+const HOURLY = ['weather_code', 'temperature_2m', 'relative_humidity_2m', 'precipitation', 'wind_speed_10m'];
+const DAILY = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_sum',
+  'precipitation_probability_max',
+  'wind_speed_10m_max'
+];
+
+// Variables a model does not provide come back missing or as nulls
+const series = z.array(z.number().nullable()).optional();
+
+const responseSchema = z.object({
+  timezone: z.string(),
+  hourly: z.object({
+    time: z.array(z.string()),
+    weather_code: series,
+    temperature_2m: series,
+    relative_humidity_2m: series,
+    precipitation: series,
+    wind_speed_10m: series
+  }),
+  daily: z.object({
+    time: z.array(z.string()),
+    weather_code: series,
+    temperature_2m_max: series,
+    temperature_2m_min: series,
+    precipitation_sum: series,
+    precipitation_probability_max: series,
+    wind_speed_10m_max: series
+  })
+});
+
+const errorSchema = z.object({ reason: z.string() });
+
+const at = (values: (number | null)[] | undefined, index: number) => values?.[index] ?? null;
+
+export const toForecast = (data: z.infer<typeof responseSchema>): Forecast => ({
+  timezone: data.timezone,
+  daily: data.daily.time.map((date, index) => ({
+    date,
+    weatherCode: at(data.daily.weather_code, index),
+    tempMax: at(data.daily.temperature_2m_max, index),
+    tempMin: at(data.daily.temperature_2m_min, index),
+    precipTotal: at(data.daily.precipitation_sum, index),
+    precipProbability: at(data.daily.precipitation_probability_max, index),
+    windSpeedMax: at(data.daily.wind_speed_10m_max, index)
+  })),
+  hourly: data.hourly.time.map((time, index) => ({
+    time: time.replace('T', ' '),
+    weatherCode: at(data.hourly.weather_code, index),
+    temp: at(data.hourly.temperature_2m, index),
+    humidity: at(data.hourly.relative_humidity_2m, index),
+    precip: at(data.hourly.precipitation, index),
+    windSpeed: at(data.hourly.wind_speed_10m, index)
+  }))
+});
+
+export interface OpenMeteoOptions {
+  baseUrl?: string;
+  historicalUrl?: string;
+  fetch?: typeof fetch;
+}
+
+// Open-Meteo needs no key and answers in metric units in the location's
+// own time zone, which lines up with the stations' obsTimeLocal
+export const createOpenMeteoSource = ({
+  baseUrl = OPEN_METEO_BASE_URL,
+  historicalUrl = OPEN_METEO_HISTORICAL_URL,
+  fetch: fetchImpl = (input, init) => fetch(input, init)
+}: OpenMeteoOptions = {}): ForecastSource => ({
+  id: 'open-meteo',
+  getForecast: async ({ lat, lon }, range) => {
+    const search = new URLSearchParams({
+      latitude: lat.toFixed(4),
+      longitude: lon.toFixed(4),
+      hourly: HOURLY.join(','),
+      daily: DAILY.join(','),
+      timezone: 'auto',
+      ...(range ? { start_date: range.from, end_date: range.to } : { forecast_days: '7' })
+    });
+    const archived = range && differenceInCalendarDays(new Date(), parseLocalDate(range.from)) > MAX_PAST_DAYS;
+
+    const url = `${archived ? historicalUrl : baseUrl}/forecast?${search.toString()}`;
+
+    const data = await requestJson(fetchImpl, url, responseSchema, {
+      getErrorMessage: (payload) => {
+        const error = errorSchema.safeParse(payload);
+        return error.success ? error.data.reason : undefined;
+      }
+    });
+    return toForecast(data);
+  }
+});
@@ -0,0 +1,45 @@
+import type { Reading } from '@/lib/pws';
+
+export interface ForecastLocation {
+  lat: number;
+  lon: number;
+}
+
+// Dates as YYYY-MM-DD in the location's own time zone
+export interface ForecastRange {
+  from: string;
+  to: string;
+}
+
+// Values are metric, like the PWS observations they are compared with
+export interface ForecastDay {
+  date: string;
+  weatherCode: Reading;
+  tempMax: Reading;
+  tempMin: Reading;
+  precipTotal: Reading;
+  precipProbability: Reading;
+  windSpeedMax: Reading;
+}
+
+export interface ForecastHour {
+  // YYYY-MM-DD HH:mm local time, the same shape as obsTimeLocal
+  time: string;
+  weatherCode: Reading;
+  temp: Reading;
+  humidity: Reading;
+  precip: Reading;
+  windSpeed: Reading;
+}
+
+export interface Forecast {
+  timezone: string;
+  daily: ForecastDay[];
+  hourly: ForecastHour[];
+}
+
+// Without a range a source returns the next seven days starting today
+export interface ForecastSource {
+  id: string;
+  getForecast: (location: ForecastLocation, range?: ForecastRange) => Promise<Forecast>;
+}
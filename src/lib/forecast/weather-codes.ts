@@ -0,0 +1,41 @@
+export type WeatherCondition = 'clear' | 'partlyCloudy' | 'cloudy' | 'fog' | 'drizzle' | 'rain' | 'snow' | 'thunderstorm';
+
+interface WeatherCodeInfo {
+  label: string;
+  condition: WeatherCondition;
+}
+
+// WMO weather interpretation codes, as used by Open-Meteo
+const WEATHER_CODES: Record<number, WeatherCodeInfo> = {
+  0: { label: 'Clear sky', condition: 'clear' },
+  1: { label: 'Mainly clear', condition: 'partlyCloudy' },
+  2: { label: 'Partly cloudy', condition: 'partlyCloudy' },
+  3: { label: 'Overcast', condition: 'cloudy' },
+  45: { label: 'Fog', condition: 'fog' },
+  48: { label: 'Rime fog', condition: 'fog' },
+  51: { label: 'Light drizzle', condition: 'drizzle' },
+  53: { label: 'Drizzle', condition: 'drizzle' },
+  55: { label: 'Dense drizzle', condition: 'drizzle' },
+  56: { label: 'Freezing drizzle', condition: 'drizzle' },
+  57: { label: 'Freezing drizzle', condition: 'drizzle' },
+  61: { label: 'Light rain', condition: 'rain' },
+  63: { label: 'Rain', condition: 'rain' },
+  65: { label: 'Heavy rain', condition: 'rain' },
+  66: { label: 'Freezing rain', condition: 'rain' },
+  67: { label: 'Freezing rain', condition: 'rain' },
+  71: { label: 'Light snow', condition: 'snow' },
+  73: { label: 'Snow', condition: 'snow' },
+  75: { label: 'Heavy snow', condition: 'snow' },
+  77: { label: 'Snow grains', condition: 'snow' },
+  80: { label: 'Light showers', condition: 'rain' },
+  81: { label: 'Showers', condition: 'rain' },
+  82: { label: 'Violent showers', condition: 'rain' },
+  85: { label: 'Snow showers', condition: 'snow' },
+  86: { label: 'Heavy snow showers', condition: 'snow' },
+  95: { label: 'Thunderstorm', condition: 'thunderstorm' },
+  96: { label: 'Thunderstorm with hail', condition: 'thunderstorm' },
+  99: { label: 'Thunderstorm with hail', condition: 'thunderstorm' }
+};
+
+export const describeWeatherCode = (code: number | null): WeatherCodeInfo =>
+  (code !== null && WEATHER_CODES[code]) || { label: 'Unknown', condition: 'cloudy' };
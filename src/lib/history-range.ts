@@ -0,0 +1,59 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  isAfter,
+  startOfDay,
+  startOfMonth,
+  subDays
+} from 'date-fns';
+import { HistoryGranularity, isLocalDateKey, parseLocalDate } from '@/lib/pws';
+
+export interface HistoryRange {
+  from: Date;
+  to: Date;
+}
+
+// Every day in a range is a separate request, so finer resolutions get shorter windows
+export const MAX_RANGE_DAYS: Record<HistoryGranularity, number> = {
+  daily: 31,
+  hourly: 7,
+  all: 2
+};
+
+export const getRangeLength = ({ from, to }: HistoryRange) => differenceInCalendarDays(to, from) + 1;
+
+// Orders the ends, keeps the range out of the future and caps it at a month
+export const clampHistoryRange = (from: Date, to: Date = from): HistoryRange => {
+  const today = startOfDay(new Date());
+  let [start, end] = isAfter(from, to) ? [to, from] : [from, to];
+  if (isAfter(end, today)) end = today;
+  if (isAfter(start, end)) start = end;
+  if (differenceInCalendarDays(end, start) >= MAX_RANGE_DAYS.daily) {
+    start = subDays(end, MAX_RANGE_DAYS.daily - 1);
+  }
+  return { from: startOfDay(start), to: startOfDay(end) };
+};
+
+export const parseHistoryRange = (from: string | null, to: string | null): HistoryRange | null => {
+  if (!from || !isLocalDateKey(from)) return null;
+  return clampHistoryRange(parseLocalDate(from), to && isLocalDateKey(to) ? parseLocalDate(to) : undefined);
+};
+
+// Keeps the most recent days when the range is longer than the resolution allows
+export const getRangeDays = (range: HistoryRange, granularity: HistoryGranularity) => {
+  const days = eachDayOfInterval({ start: range.from, end: range.to });
+  return days.slice(-MAX_RANGE_DAYS[granularity]);
+};
+
+export const getLastWeek = (): HistoryRange => clampHistoryRange(subDays(new Date(), 6), new Date());
+
+// Month paging always lands on whole calendar months, trimmed at today
+export const shiftRangeByMonth = (range: HistoryRange, months: number): HistoryRange => {
+  const month = addMonths(startOfMonth(range.from), months);
+  return clampHistoryRange(month, endOfMonth(month));
+};
+
+export const canShiftForward = (range: HistoryRange) =>
+  differenceInCalendarDays(new Date(), range.to) > 0;
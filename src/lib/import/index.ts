@@ -0,0 +1,66 @@
+import { archiveSummaries, readCoveredDates } from '@/lib/archive';
+import type { ProviderId } from '@/lib/providers';
+import { getLocalDate, HistoryGranularity, SummaryObservation, toLocalDateKey } from '@/lib/pws';
+import { summariseRecords } from './records';
+import type { ImportRecord } from './types';
+
+export * from './parsers';
+export * from './records';
+export * from './types';
+
+// A day needs readings in nearly every hour, from midnight to the last hour,
+// before it can stand in for the API's history of that day
+const MIN_COVERED_HOURS = 22;
+
+const isCompleteDay = (records: ImportRecord[]) => {
+  const hours = new Set(records.map((record) => record.obsTimeLocal.slice(11, 13)));
+  return hours.has('00') && hours.has('23') && hours.size >= MIN_COVERED_HOURS;
+};
+
+const groupByDate = (records: ImportRecord[]) => {
+  const days = new Map<string, ImportRecord[]>();
+  records.forEach((record) => {
+    const date = record.obsTimeLocal.slice(0, 10);
+    const day = days.get(date);
+    if (day) day.push(record);
+    else days.set(date, [record]);
+  });
+  return days;
+};
+
+// Full past days are marked complete so the archive stops asking the API for
+// them; partial days (such as the ends of a file, or today) are stored but
+// still get backfilled. Days the archive already holds in full are kept.
+export const importIntoArchive = async (provider: ProviderId, stationId: string, records: ImportRecord[]) => {
+  const summaries = summariseRecords(stationId, records);
+  const today = toLocalDateKey(new Date());
+  const days = groupByDate(records);
+  const dates = [...days.keys()].sort();
+  const completeDates = dates.filter((date) => date < today && isCompleteDay(days.get(date)));
+
+  const archive = async (granularity: HistoryGranularity, observations: SummaryObservation[]) => {
+    const covered = await readCoveredDates(provider, stationId, granularity, dates);
+    await archiveSummaries(
+      provider,
+      stationId,
+      granularity,
+      observations.filter((observation) => !covered.has(getLocalDate(observation))),
+      completeDates.filter((date) => !covered.has(date))
+    );
+    return covered;
+  };
+
+  await archive('all', summaries.all);
+  await archive('hourly', summaries.hourly);
+  // Daily coverage decides what History shows, so it is what gets reported
+  const kept = await archive('daily', summaries.daily);
+  const imported = dates.filter((date) => !kept.has(date));
+
+  return {
+    days: imported.length,
+    kept: kept.size,
+    partial: imported.filter((date) => !completeDates.includes(date)).length,
+    from: dates[0] ?? today,
+    to: dates[dates.length - 1] ?? today
+  };
+};
@@ -0,0 +1,228 @@
+import type { ColumnMapping, DateOrder, ImportField, ImportUnits, ParsedImport } from './types';
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Picks whichever delimiter splits the first line into the most cells
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+// RFC 4180 style: quoted cells may hold delimiters, newlines and doubled quotes
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  // Semicolon-separated files from European locales use decimal commas
+  const decimalComma = delimiter !== ',';
+  return rows
+    .filter((cells) => cells.some(Boolean))
+    .map((cells) => (decimalComma ? cells.map((value) => value.replace(/^(-?\d+),(\d+)$/, '$1.$2')) : cells));
+};
+
+// Column names are compared without units, punctuation or case
+const normalizeHeader = (header: string) =>
+  header
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  timestamp: ['datetime', 'timestamp', 'dateutc', 'obstime', 'observationtime', 'simpledate'],
+  date: ['date', 'day'],
+  time: ['time', 'hour'],
+  temp: ['temp', 'temperature', 'outtemp', 'tempout', 'outdoortemperature', 'outsidetemperature', 'tempf', 'tempc'],
+  dewpt: ['dewpoint', 'dewpt', 'dew', 'outdoordewpoint'],
+  humidity: ['humidity', 'hum', 'outhumidity', 'outhum', 'outdoorhumidity', 'relativehumidity', 'rh'],
+  windSpeed: ['windspeed', 'wind', 'windavg', 'avgwindspeed', 'averagewindspeed', 'windspeedavg'],
+  windGust: ['windgust', 'gust', 'gustspeed', 'hiwindspeed', 'maxwindgust'],
+  winddir: ['winddir', 'winddirection', 'direction', 'windbearing', 'bearing'],
+  pressure: ['pressure', 'barometer', 'baro', 'bar', 'relativepressure', 'sealevelpressure', 'baromrel', 'slp'],
+  precipRate: ['rainrate', 'precipitationrate', 'preciprate', 'hourlyrain'],
+  rain: ['rain', 'rainfall', 'precipitation', 'precip'],
+  rainToday: ['dailyrain', 'raintoday', 'rainday', 'dailyrainfall', 'precipaccum', 'precipitationaccumulation'],
+  uv: ['uv', 'uvindex', 'ultravioletradiationindex', 'uvi'],
+  solarRadiation: ['solarradiation', 'solar', 'radiation', 'solarrad']
+};
+
+export const suggestField = (header: string): ImportField | null => {
+  const name = normalizeHeader(header);
+  const match = (Object.keys(HEADER_SYNONYMS) as ImportField[]).find((field) =>
+    HEADER_SYNONYMS[field].includes(name)
+  );
+  return match ?? null;
+};
+
+// Guesses the date order from the first values that rule the others out
+export const detectDateOrder = (values: string[], fallback: DateOrder): DateOrder => {
+  for (const value of values) {
+    const parts = value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+    if (!parts) continue;
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    if (parts[1].length === 4) return 'ymd';
+    if (first > 12) return 'dmy';
+    if (second > 12) return 'mdy';
+  }
+  return fallback;
+};
+
+const suggestDateOrder = (rows: string[][], mapping: ColumnMapping, fallback: DateOrder) => {
+  const index = mapping.findIndex((field) => field === 'date' || field === 'timestamp');
+  return index === -1 ? fallback : detectDateOrder(rows.map((row) => row[index] ?? ''), fallback);
+};
+
+export const parseConsoleCsv = (text: string): ParsedImport => {
+  const [columns = [], ...rows] = parseDelimited(text);
+  const mapping = columns.map(suggestField);
+  return {
+    format: 'csv',
+    columns,
+    rows,
+    mapping,
+    dateOrder: suggestDateOrder(rows, mapping, 'mdy')
+  };
+};
+
+// CumulusMX monthly logs (e.g. Jan24log.txt) have no header; the first
+// columns have had the same meaning since Cumulus 1
+const CUMULUS_COLUMNS: [string, ImportField | null][] = [
+  ['Date', 'date'],
+  ['Time', 'time'],
+  ['Temperature', 'temp'],
+  ['Humidity', 'humidity'],
+  ['Dew point', 'dewpt'],
+  ['Wind speed', 'windSpeed'],
+  ['Recent high gust', 'windGust'],
+  ['Average bearing', 'winddir'],
+  ['Rain rate', 'precipRate'],
+  ['Rain today', 'rainToday'],
+  ['Pressure', 'pressure'],
+  ['Rain counter', null],
+  ['Inside temperature', null],
+  ['Inside humidity', null],
+  ['Current gust', null],
+  ['Wind chill', null],
+  ['Heat index', null],
+  ['UV index', 'uv'],
+  ['Solar radiation', 'solarRadiation']
+];
+
+export const parseCumulusLog = (text: string): ParsedImport => {
+  const rows = parseDelimited(text);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const columns = Array.from({ length: width }, (_, index) => CUMULUS_COLUMNS[index]?.[0] ?? `Column ${index + 1}`);
+  const mapping = columns.map((_, index) => CUMULUS_COLUMNS[index]?.[1] ?? null);
+  return {
+    format: 'cumulus',
+    columns,
+    rows,
+    mapping,
+    dateOrder: suggestDateOrder(rows, mapping, 'dmy')
+  };
+};
+
+const WEEWX_FIELDS: Record<string, ImportField> = {
+  dateTime: 'timestamp',
+  outTemp: 'temp',
+  dewpoint: 'dewpt',
+  outHumidity: 'humidity',
+  windSpeed: 'windSpeed',
+  windGust: 'windGust',
+  windDir: 'winddir',
+  barometer: 'pressure',
+  rainRate: 'precipRate',
+  rain: 'rain',
+  UV: 'uv',
+  radiation: 'solarRadiation'
+};
+
+// The weewx unit systems: US, METRIC and METRICWX
+const WEEWX_UNITS: Record<string, ImportUnits> = {
+  '1': { temperature: 'F', wind: 'mph', pressure: 'inHg', rain: 'in' },
+  '16': { temperature: 'C', wind: 'kmh', pressure: 'hPa', rain: 'cm' },
+  '17': { temperature: 'C', wind: 'ms', pressure: 'hPa', rain: 'mm' }
+};
+
+const unquoteIdentifier = (name: string) => name.trim().replace(/^["'`[]|["'`\]]$/g, '');
+
+// Reads the archive table out of `sqlite3 weewx.sdb .dump` output
+export const parseWeewxDump = (text: string): ParsedImport => {
+  const table = text.match(/CREATE TABLE\s+["'`]?archive["'`]?\s*\(([\s\S]*?)\);/i);
+  let columns = table
+    ? table[1]
+        .split(',')
+        .map((definition) => unquoteIdentifier(definition.trim().split(/\s+/)[0]))
+        .filter((name) => name && !/^(primary|unique|constraint|check|foreign)$/i.test(name))
+    : [];
+
+  const rows: string[][] = [];
+  const inserts = /INSERT INTO\s+["'`]?archive["'`]?\s*(?:\(([^)]*)\))?\s*VALUES\s*([\s\S]*?);\s*(?:\r?\n|$)/gi;
+  for (const [, columnList, values] of text.matchAll(inserts)) {
+    if (columnList && columns.length === 0) columns = columnList.split(',').map(unquoteIdentifier);
+    for (const [, tuple] of values.matchAll(/\(([^()]*)\)/g)) {
+      rows.push(tuple.split(',').map((value) => value.trim().replace(/^'|'$/g, '').replace(/^NULL$/i, '')));
+    }
+  }
+
+  const unitSystem = rows[0]?.[columns.indexOf('usUnits')];
+  return {
+    format: 'weewx',
+    columns,
+    rows,
+    mapping: columns.map((name) => WEEWX_FIELDS[name] ?? null),
+    dateOrder: 'ymd',
+    units: WEEWX_UNITS[unitSystem ?? '']
+  };
+};
+
+export const detectImportFormat = (text: string) => {
+  if (/CREATE TABLE\s+["'`]?archive\b|INSERT INTO\s+["'`]?archive\b/i.test(text)) return 'weewx';
+  if (/^\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}[,;\t]\d{1,2}:\d{2}[,;\t]/.test(text.trimStart())) return 'cumulus';
+  return 'csv';
+};
+
+export const parseImportFile = (text: string): ParsedImport => {
+  switch (detectImportFormat(text)) {
+    case 'weewx':
+      return parseWeewxDump(text);
+    case 'cumulus':
+      return parseCumulusLog(text);
+    default:
+      return parseConsoleCsv(text);
+  }
+};
@@ -0,0 +1,314 @@
+import { formatLocalTime, Reading, SummaryObservation } from '@/lib/pws';
+import type { DateOrder, ImportField, ImportRecord, ImportResult, ImportUnits, ParsedImport } from './types';
+
+type ValueField = keyof ImportRecord['values'];
+
+const VALUE_FIELDS: ValueField[] = [
+  'temp',
+  'dewpt',
+  'humidity',
+  'windSpeed',
+  'windGust',
+  'winddir',
+  'pressure',
+  'precipRate',
+  'rain',
+  'rainToday',
+  'uv',
+  'solarRadiation'
+];
+
+const isValueField = (field: ImportField | null): field is ValueField =>
+  field !== null && (VALUE_FIELDS as string[]).includes(field);
+
+const parseNumber = (value: string | undefined) => {
+  if (!value || !value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const columnValues = (parsed: ParsedImport, fields: ImportField[]) =>
+  parsed.mapping.flatMap((field, index) =>
+    field && fields.includes(field)
+      ? parsed.rows.map((row) => parseNumber(row[index])).filter((value): value is number => value !== null)
+      : []
+  );
+
+const columnHeaders = (parsed: ParsedImport, fields: ImportField[]) =>
+  parsed.columns.filter((_, index) => {
+    const field = parsed.mapping[index];
+    return field !== null && fields.includes(field);
+  }).join(' ');
+
+// Headers are the best evidence; value ranges decide when they say nothing
+export const detectUnits = (parsed: ParsedImport): ImportUnits => {
+  if (parsed.units) return parsed.units;
+
+  const pressureHeader = columnHeaders(parsed, ['pressure']);
+  const pressureMedian = median(columnValues(parsed, ['pressure']));
+  const pressure: ImportUnits['pressure'] = /inhg/i.test(pressureHeader)
+    ? 'inHg'
+    : /mmhg/i.test(pressureHeader)
+      ? 'mmHg'
+      : /hpa|mbar|mb\b/i.test(pressureHeader)
+        ? 'hPa'
+        : pressureMedian !== null && pressureMedian < 40
+          ? 'inHg'
+          : pressureMedian !== null && pressureMedian < 850
+            ? 'mmHg'
+            : 'hPa';
+  const imperial = pressure === 'inHg';
+
+  const temperatureHeader = columnHeaders(parsed, ['temp', 'dewpt']);
+  const temperature: ImportUnits['temperature'] = /°?f\b|fahrenheit|tempf/i.test(temperatureHeader)
+    ? 'F'
+    : /°?c\b|celsius|tempc/i.test(temperatureHeader)
+      ? 'C'
+      : imperial
+        ? 'F'
+        : 'C';
+
+  const windHeader = columnHeaders(parsed, ['windSpeed', 'windGust']);
+  const wind: ImportUnits['wind'] = /mph/i.test(windHeader)
+    ? 'mph'
+    : /m\/s|ms\b/i.test(windHeader)
+      ? 'ms'
+      : /knot|kn\b|kts/i.test(windHeader)
+        ? 'kn'
+        : /km\/h|kmh|kph/i.test(windHeader)
+          ? 'kmh'
+          : imperial
+            ? 'mph'
+            : 'kmh';
+
+  const rainHeader = columnHeaders(parsed, ['rain', 'rainToday', 'precipRate']);
+  const rain: ImportUnits['rain'] = /\bin\b|inch/i.test(rainHeader)
+    ? 'in'
+    : /\bcm\b/i.test(rainHeader)
+      ? 'cm'
+      : /\bmm\b/i.test(rainHeader)
+        ? 'mm'
+        : imperial
+          ? 'in'
+          : 'mm';
+
+  return { temperature, wind, pressure, rain };
+};
+
+// Which of the import units a column is read in; null for unitless columns
+export const getImportUnitKey = (field: ImportField | null): keyof ImportUnits | null => {
+  switch (field) {
+    case 'temp':
+    case 'dewpt':
+      return 'temperature';
+    case 'windSpeed':
+    case 'windGust':
+      return 'wind';
+    case 'pressure':
+      return 'pressure';
+    case 'precipRate':
+    case 'rain':
+    case 'rainToday':
+      return 'rain';
+    default:
+      return null;
+  }
+};
+
+const toCelsius = (value: number, unit: ImportUnits['temperature']) =>
+  unit === 'F' ? ((value - 32) * 5) / 9 : value;
+
+const WIND_TO_KMH: Record<ImportUnits['wind'], number> = { kmh: 1, ms: 3.6, mph: 1.609344, kn: 1.852 };
+const PRESSURE_TO_HPA: Record<ImportUnits['pressure'], number> = { hPa: 1, inHg: 33.8639, mmHg: 1.333224 };
+const RAIN_TO_MM: Record<ImportUnits['rain'], number> = { mm: 1, cm: 10, in: 25.4 };
+
+const toMetric = (field: ValueField, value: number, units: ImportUnits) => {
+  switch (field) {
+    case 'temp':
+    case 'dewpt':
+      return toCelsius(value, units.temperature);
+    case 'windSpeed':
+    case 'windGust':
+      return value * WIND_TO_KMH[units.wind];
+    case 'pressure':
+      return value * PRESSURE_TO_HPA[units.pressure];
+    case 'precipRate':
+    case 'rain':
+    case 'rainToday':
+      return value * RAIN_TO_MM[units.rain];
+    default:
+      return value;
+  }
+};
+
+// Readings must already be metric; missing ones are left out of the record
+export const toImportRecord = (time: Date, readings: Partial<Record<ValueField, Reading>>): ImportRecord => {
+  const values: ImportRecord['values'] = {};
+  (Object.keys(readings) as ValueField[]).forEach((field) => {
+    const value = readings[field];
+    if (value !== null && value !== undefined) values[field] = value;
+  });
+  return { epoch: Math.floor(time.getTime() / 1000), obsTimeLocal: formatLocalTime(time), values };
+};
+
+// Accepts epoch seconds/milliseconds or a date with an optional time of day,
+// read in the browser's time zone
+export const parseTimestamp = (date: string, time: string, dateOrder: DateOrder): Date | null => {
+  if (/^\d{9,13}$/.test(date) && !time) {
+    const epoch = Number(date);
+    return new Date(date.length > 10 ? epoch : epoch * 1000);
+  }
+
+  const dateParts = date.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T\s]+(.*))?$/);
+  if (!dateParts) return null;
+  const [a, b, c] = [Number(dateParts[1]), Number(dateParts[2]), Number(dateParts[3])];
+  const [year, month, day] = dateOrder === 'ymd' ? [a, b, c] : dateOrder === 'dmy' ? [c, b, a] : [c, a, b];
+
+  const timeParts = (time || dateParts[4] || '').match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  let hours = timeParts ? Number(timeParts[1]) : 0;
+  if (timeParts?.[4]) hours = (hours % 12) + (/pm/i.test(timeParts[4]) ? 12 : 0);
+  const minutes = timeParts ? Number(timeParts[2]) : 0;
+  const seconds = timeParts?.[3] ? Number(timeParts[3]) : 0;
+
+  const result = new Date(year < 100 ? 2000 + year : year, month - 1, day, hours, minutes, seconds);
+  return result.getMonth() === month - 1 && result.getDate() === day ? result : null;
+};
+
+export const buildRecords = (parsed: ParsedImport, units: ImportUnits): ImportResult => {
+  const { mapping, dateOrder } = parsed;
+  const timestampIndex = mapping.indexOf('timestamp');
+  const dateIndex = timestampIndex !== -1 ? timestampIndex : mapping.indexOf('date');
+  const timeIndex = timestampIndex !== -1 ? -1 : mapping.indexOf('time');
+  if (dateIndex === -1) return { records: [], skipped: parsed.rows.length };
+
+  const byEpoch = new Map<number, ImportRecord>();
+  let skipped = 0;
+
+  parsed.rows.forEach((row) => {
+    const time = parseTimestamp(row[dateIndex] ?? '', timeIndex === -1 ? '' : row[timeIndex] ?? '', dateOrder);
+    if (!time) {
+      skipped++;
+      return;
+    }
+
+    const readings: Partial<Record<ValueField, Reading>> = {};
+    mapping.forEach((field, index) => {
+      const value = parseNumber(row[index]);
+      if (isValueField(field) && value !== null) readings[field] = toMetric(field, value, units);
+    });
+
+    // Overlapping exports repeat rows; the later one wins
+    const record = toImportRecord(time, readings);
+    byEpoch.set(record.epoch, record);
+  });
+
+  const records = [...byEpoch.values()].sort((a, b) => a.epoch - b.epoch);
+  return { records, skipped };
+};
+
+const summarise = (values: (number | undefined)[]) => {
+  const present = values.filter((value): value is number => value !== undefined);
+  if (present.length === 0) return { high: null, low: null, avg: null };
+  return {
+    high: Math.max(...present),
+    low: Math.min(...present),
+    avg: present.reduce((sum, value) => sum + value, 0) / present.length
+  };
+};
+
+// Direction averages go through unit vectors so 350° and 10° average to 0°
+const averageDirection = (values: (number | undefined)[]) => {
+  const present = values.filter((value): value is number => value !== undefined);
+  if (present.length === 0) return null;
+  const x = present.reduce((sum, degrees) => sum + Math.cos((degrees * Math.PI) / 180), 0);
+  const y = present.reduce((sum, degrees) => sum + Math.sin((degrees * Math.PI) / 180), 0);
+  return Math.round(((Math.atan2(y, x) * 180) / Math.PI + 360) % 360);
+};
+
+// Rain is either a per-record amount or a running daily total
+const totalRain = (records: ImportRecord[]) => {
+  const running = records.map((record) => record.values.rainToday).filter((value): value is number => value !== undefined);
+  if (running.length > 0) return Math.max(...running);
+  const amounts = records.map((record) => record.values.rain).filter((value): value is number => value !== undefined);
+  return amounts.length > 0 ? amounts.reduce((sum, value) => sum + value, 0) : null;
+};
+
+const toSummary = (stationId: string, records: ImportRecord[]): SummaryObservation => {
+  const last = records[records.length - 1];
+  const pick = (field: ValueField) => records.map((record) => record.values[field]);
+  const temp = summarise(pick('temp'));
+  const dewpt = summarise(pick('dewpt'));
+  const humidity = summarise(pick('humidity'));
+  const wind = summarise(pick('windSpeed'));
+  const gust = summarise(pick('windGust'));
+  const pressure = summarise(pick('pressure'));
+
+  return {
+    stationID: stationId,
+    tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    obsTimeUtc: new Date(last.epoch * 1000).toISOString(),
+    obsTimeLocal: last.obsTimeLocal,
+    epoch: last.epoch,
+    lat: null,
+    lon: null,
+    solarRadiationHigh: summarise(pick('solarRadiation')).high,
+    uvHigh: summarise(pick('uv')).high,
+    winddirAvg: averageDirection(pick('winddir')),
+    humidityHigh: humidity.high,
+    humidityLow: humidity.low,
+    humidityAvg: humidity.avg,
+    qcStatus: null,
+    metric: {
+      tempHigh: temp.high,
+      tempLow: temp.low,
+      tempAvg: temp.avg,
+      windspeedHigh: wind.high,
+      windspeedLow: wind.low,
+      windspeedAvg: wind.avg,
+      windgustHigh: gust.high,
+      windgustLow: gust.low,
+      windgustAvg: gust.avg,
+      dewptHigh: dewpt.high,
+      dewptLow: dewpt.low,
+      dewptAvg: dewpt.avg,
+      windchillHigh: null,
+      windchillLow: null,
+      windchillAvg: null,
+      heatindexHigh: null,
+      heatindexLow: null,
+      heatindexAvg: null,
+      pressureMax: pressure.high,
+      pressureMin: pressure.low,
+      pressureTrend: null,
+      precipRate: summarise(pick('precipRate')).high,
+      precipTotal: totalRain(records)
+    }
+  };
+};
+
+// Groups records into the periods the PWS API reports: each record on its
+// own ('all'), by local hour ('hourly') and by local day ('daily')
+export const summariseRecords = (stationId: string, records: ImportRecord[]) => {
+  const groupBy = (length: number) => {
+    const groups = new Map<string, ImportRecord[]>();
+    records.forEach((record) => {
+      const key = record.obsTimeLocal.slice(0, length);
+      const group = groups.get(key);
+      if (group) group.push(record);
+      else groups.set(key, [record]);
+    });
+    return [...groups.values()];
+  };
+
+  return {
+    all: records.map((record) => toSummary(stationId, [record])),
+    hourly: groupBy(13).map((hour) => toSummary(stationId, hour)),
+    daily: groupBy(10).map((day) => toSummary(stationId, day))
+  };
+};
@@ -0,0 +1,55 @@
+import type { PressureUnit, TemperatureUnit } from '@/lib/units';
+
+export type ImportFormat = 'csv' | 'weewx' | 'cumulus';
+
+// Where a source column lands in the observation model
+export type ImportField =
+  | 'timestamp'
+  | 'date'
+  | 'time'
+  | 'temp'
+  | 'dewpt'
+  | 'humidity'
+  | 'windSpeed'
+  | 'windGust'
+  | 'winddir'
+  | 'pressure'
+  | 'precipRate'
+  | 'rain'
+  | 'rainToday'
+  | 'uv'
+  | 'solarRadiation';
+
+export type ColumnMapping = (ImportField | null)[];
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+// Source files can be in units the app does not display, such as centimetres
+export interface ImportUnits {
+  temperature: TemperatureUnit;
+  wind: 'kmh' | 'ms' | 'mph' | 'kn';
+  pressure: PressureUnit;
+  rain: 'mm' | 'cm' | 'in';
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  columns: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  dateOrder: DateOrder;
+  // Set when the file itself states its units (WeeWX usUnits)
+  units?: ImportUnits;
+}
+
+// One timestamped reading, normalised to metric
+export interface ImportRecord {
+  epoch: number;
+  obsTimeLocal: string;
+  values: Partial<Record<Exclude<ImportField, 'timestamp' | 'date' | 'time'>, number>>;
+}
+
+export interface ImportResult {
+  records: ImportRecord[];
+  skipped: number;
+}
@@ -0,0 +1,241 @@
+import { addDays, startOfDay } from 'date-fns';
+import { z } from 'zod';
+import { summariseRecords, toImportRecord } from '@/lib/import';
+import {
+  CurrentObservation,
+  ExtraReading,
+  formatLocalTime,
+  PwsEmptyPayloadError,
+  PwsStationNotFoundError,
+  Reading,
+  requestJson,
+  toLocalDateKey
+} from '@/lib/pws';
+import { getWeek, requireItems } from './shared';
+import type { ProviderDefinition, WeatherProvider } from './types';
+
+export const AMBIENT_BASE_URL = 'https://rt.ambientweather.net/v1';
+
+// The API allows one request per second per API key
+const REQUEST_INTERVAL = 1000;
+// The device endpoint returns at most 288 readings: one day at 5-minute intervals
+const READINGS_PER_DAY = 288;
+
+// Readings are flat key/value pairs whose keys depend on the sensors attached
+const readingSchema = z
+  .object({ dateutc: z.number() })
+  .catchall(z.union([z.number(), z.string(), z.boolean(), z.null()]));
+
+const deviceSchema = z.object({
+  macAddress: z.string(),
+  info: z
+    .object({
+      name: z.string().optional(),
+      coords: z
+        .object({
+          coords: z.object({ lat: z.number(), lon: z.number() }).optional(),
+          location: z.string().optional(),
+          elevation: z.number().optional()
+        })
+        .optional()
+    })
+    .optional(),
+  lastData: readingSchema.optional()
+});
+
+const devicesSchema = z.array(deviceSchema);
+const readingsSchema = z.array(readingSchema);
+
+type AmbientReading = z.infer<typeof readingSchema>;
+type AmbientDevice = z.infer<typeof deviceSchema>;
+
+const read = (reading: AmbientReading, key: string): Reading => {
+  const value = reading[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+const fToC = (value: Reading) => (value === null ? null : ((value - 32) * 5) / 9);
+const mphToKmh = (value: Reading) => (value === null ? null : value * 1.609344);
+const inHgToHpa = (value: Reading) => (value === null ? null : value * 33.8639);
+const inToMm = (value: Reading) => (value === null ? null : value * 25.4);
+
+// MAC addresses are matched regardless of case and separators
+const normalizeMac = (mac: string) => mac.replace(/[^0-9a-f]/gi, '').toLowerCase();
+
+const CHANNELS = Array.from({ length: 10 }, (_, index) => index + 1);
+
+const getExtras = (reading: AmbientReading): ExtraReading[] => {
+  const extras: ExtraReading[] = [
+    { id: 'indoorTemp', label: 'Indoor temperature', value: fToC(read(reading, 'tempinf')), unit: '°C', kind: 'temperature' },
+    { id: 'indoorHumidity', label: 'Indoor humidity', value: read(reading, 'humidityin'), unit: '%', kind: 'humidity' }
+  ];
+  CHANNELS.forEach((channel) => {
+    extras.push(
+      { id: `temp${channel}`, label: `Channel ${channel} temperature`, value: fToC(read(reading, `temp${channel}f`)), unit: '°C', kind: 'temperature' },
+      { id: `humidity${channel}`, label: `Channel ${channel} humidity`, value: read(reading, `humidity${channel}`), unit: '%', kind: 'humidity' },
+      { id: `soilMoisture${channel}`, label: `Soil ${channel} moisture`, value: read(reading, `soilhum${channel}`), unit: '%' }
+    );
+  });
+  extras.push(
+    { id: 'lightningDistance', label: 'Last lightning', value: read(reading, 'lightning_distance'), unit: 'km' },
+    { id: 'lightningCount', label: 'Lightning strikes today', value: read(reading, 'lightning_day'), unit: '' },
+    { id: 'pm25', label: 'PM2.5', value: read(reading, 'pm25'), unit: 'µg/m³' }
+  );
+  // Devices only send keys for the sensors they have
+  return extras.filter((extra) => extra.value !== null);
+};
+
+export const toCurrentObservation = (
+  stationId: string,
+  device: AmbientDevice,
+  reading: AmbientReading
+): CurrentObservation => {
+  const time = new Date(reading.dateutc);
+  const tempf = read(reading, 'tempf');
+  const feelsLike = read(reading, 'feelsLike');
+  const coords = device.info?.coords;
+
+  return {
+    stationID: stationId,
+    obsTimeUtc: time.toISOString(),
+    obsTimeLocal: formatLocalTime(time),
+    neighborhood: device.info?.name || coords?.location || '',
+    country: '',
+    solarRadiation: read(reading, 'solarradiation'),
+    lon: coords?.coords?.lon ?? null,
+    lat: coords?.coords?.lat ?? null,
+    uv: read(reading, 'uv'),
+    winddir: read(reading, 'winddir'),
+    humidity: read(reading, 'humidity'),
+    metric: {
+      temp: fToC(tempf),
+      // feelsLike is the wind chill below 50°F and the heat index above 68°F
+      heatIndex: fToC(tempf !== null && tempf > 68 ? feelsLike ?? tempf : tempf),
+      dewpt: fToC(read(reading, 'dewPoint')),
+      windChill: fToC(tempf !== null && tempf < 50 ? feelsLike ?? tempf : tempf),
+      windSpeed: mphToKmh(read(reading, 'windspeedmph')),
+      windGust: mphToKmh(read(reading, 'windgustmph')),
+      pressure: inHgToHpa(read(reading, 'baromrelin')),
+      precipRate: inToMm(read(reading, 'hourlyrainin')),
+      precipTotal: inToMm(read(reading, 'dailyrainin')),
+      elev: coords?.elevation ?? null
+    },
+    extras: getExtras(reading)
+  };
+};
+
+const toRecord = (reading: AmbientReading) =>
+  toImportRecord(new Date(reading.dateutc), {
+    temp: fToC(read(reading, 'tempf')),
+    dewpt: fToC(read(reading, 'dewPoint')),
+    humidity: read(reading, 'humidity'),
+    windSpeed: mphToKmh(read(reading, 'windspeedmph')),
+    windGust: mphToKmh(read(reading, 'windgustmph')),
+    winddir: read(reading, 'winddir'),
+    pressure: inHgToHpa(read(reading, 'baromrelin')),
+    precipRate: inToMm(read(reading, 'hourlyrainin')),
+    rainToday: inToMm(read(reading, 'dailyrainin')),
+    uv: read(reading, 'uv'),
+    solarRadiation: read(reading, 'solarradiation')
+  });
+
+export interface AmbientClientOptions {
+  applicationKey: string;
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+// The station id is the device's MAC address. History is read from the
+// device's 5-minute readings and summarised into the PWS periods locally
+export const createAmbientClient = ({
+  applicationKey,
+  apiKey,
+  baseUrl = AMBIENT_BASE_URL,
+  fetch: fetchImpl = (input, init) => fetch(input, init)
+}: AmbientClientOptions): WeatherProvider => {
+  // Requests run one at a time, spaced to stay under the rate limit
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const schedule = <T>(task: () => Promise<T>) => {
+    const run = queue.then(task);
+    const pause = () => new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL));
+    queue = run.then(pause, pause);
+    return run;
+  };
+
+  const request = <T>(
+    path: string,
+    stationId: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    params: Record<string, string> = {}
+  ) =>
+    schedule(() => {
+      const search = new URLSearchParams({ applicationKey, apiKey, ...params });
+      return requestJson(fetchImpl, `${baseUrl}/${path}?${search.toString()}`, schema, { stationId });
+    });
+
+  const getDay = async (stationId: string, date: Date) => {
+    const day = toLocalDateKey(date);
+    const readings = await request(`devices/${encodeURIComponent(stationId)}`, stationId, readingsSchema, {
+      endDate: String(addDays(startOfDay(date), 1).getTime()),
+      limit: String(READINGS_PER_DAY)
+    });
+    const records = readings.map(toRecord).filter((record) => record.obsTimeLocal.startsWith(day));
+    return summariseRecords(stationId, records.sort((a, b) => a.epoch - b.epoch));
+  };
+
+  return {
+    getCurrent: async (stationId) => {
+      const devices = await request('devices', stationId, devicesSchema);
+      const device = devices.find((entry) => normalizeMac(entry.macAddress) === normalizeMac(stationId));
+      if (!device) throw new PwsStationNotFoundError(stationId);
+      if (!device.lastData) throw new PwsEmptyPayloadError('No weather data available for this station');
+      return toCurrentObservation(stationId, device, device.lastData);
+    },
+
+    getDailySummaries: async (stationId) => {
+      const week = await getWeek((date) => getDay(stationId, date), new Date());
+      return requireItems(week.flatMap((day) => day.daily), 'No historical data available for this station');
+    },
+
+    getHourly: async (stationId) => {
+      const week = await getWeek((date) => getDay(stationId, date), new Date());
+      return requireItems(week.flatMap((day) => day.hourly), 'No hourly data available for this station');
+    },
+
+    getAllToday: async (stationId) => {
+      const today = await getDay(stationId, new Date());
+      return requireItems(today.all, 'No observations recorded today for this station');
+    },
+
+    getHistory: async (stationId, date, granularity = 'daily') => {
+      const day = await getDay(stationId, date);
+      return requireItems(day[granularity], 'No historical data available for this date');
+    }
+  };
+};
+
+export const ambientProvider: ProviderDefinition = {
+  id: 'ambient',
+  label: 'Ambient Weather',
+  stationLabel: 'Device MAC address',
+  stationPlaceholder: 'e.g., 00:0E:C6:20:0F:7B',
+  credentialFields: [
+    {
+      key: 'applicationKey',
+      label: 'Application Key',
+      placeholder: 'Enter your Ambient Weather application key',
+      description: 'Created under Account → API Keys on ambientweather.net',
+      secret: true
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter your Ambient Weather API key',
+      description: 'Grants read access to the devices on your account',
+      secret: true
+    }
+  ],
+  create: ({ applicationKey, apiKey }) => createAmbientClient({ applicationKey, apiKey })
+};
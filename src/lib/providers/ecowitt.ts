@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import { readArchivedObservations } from '@/lib/archive';
+import { summariseRecords, toImportRecord } from '@/lib/import';
+import {
+  CurrentObservation,
+  ExtraReading,
+  formatLocalTime,
+  Reading,
+  requestJson
+} from '@/lib/pws';
+import { getWeek, requireItems } from './shared';
+import type { ProviderDefinition, WeatherProvider } from './types';
+
+// Gateways report values as strings, usually with the unit appended
+// ("3.2 km/h", "56%"); some firmware sends bare numbers instead
+const value = z.union([z.string(), z.number()]).transform(String);
+
+const sensorSchema = z.object({
+  id: z.string(),
+  val: value,
+  unit: z.string().optional()
+});
+
+const livedataSchema = z.object({
+  common_list: z.array(sensorSchema).optional(),
+  rain: z.array(sensorSchema).optional(),
+  piezoRain: z.array(sensorSchema).optional(),
+  wh25: z
+    .array(
+      z.object({
+        intemp: value.optional(),
+        unit: z.string().optional(),
+        inhumi: value.optional(),
+        abs: value.optional(),
+        rel: value.optional()
+      })
+    )
+    .optional(),
+  lightning: z
+    .array(
+      z.object({
+        distance: value.optional(),
+        count: value.optional()
+      })
+    )
+    .optional(),
+  ch_soil: z
+    .array(
+      z.object({
+        channel: value,
+        name: z.string().optional(),
+        humidity: value.optional()
+      })
+    )
+    .optional(),
+  ch_aisle: z
+    .array(
+      z.object({
+        channel: value,
+        name: z.string().optional(),
+        temp: value.optional(),
+        unit: z.string().optional(),
+        humidity: value.optional()
+      })
+    )
+    .optional()
+});
+
+type Livedata = z.infer<typeof livedataSchema>;
+
+// Sensor ids from the gateway's local HTTP API
+const COMMON = {
+  temp: '0x02',
+  dewpt: '0x03',
+  windChill: '0x04',
+  heatIndex: '0x05',
+  humidity: '0x07',
+  winddir: '0x0A',
+  windSpeed: '0x0B',
+  windGust: '0x0C',
+  solarRadiation: '0x15',
+  uv: '0x17'
+};
+
+const RAIN = {
+  rate: '0x0E',
+  day: '0x10'
+};
+
+const parseReading = (raw: string | undefined, unit?: string) => {
+  if (raw === undefined) return { value: null, unit: unit ?? '' };
+  const match = raw.trim().match(/^(-?\d+(?:\.\d+)?)\s*(.*)$/);
+  if (!match) return { value: null, unit: unit ?? '' };
+  return { value: Number(match[1]), unit: (unit || match[2]).trim() };
+};
+
+const toCelsius = ({ value, unit }: { value: Reading; unit: string }) =>
+  value !== null && /f/i.test(unit) ? ((value - 32) * 5) / 9 : value;
+
+const WIND_TO_KMH: Record<string, number> = { 'km/h': 1, 'm/s': 3.6, mph: 1.609344, knots: 1.852, 'ft/s': 1.09728 };
+const PRESSURE_TO_HPA: Record<string, number> = { hpa: 1, kpa: 10, inhg: 33.8639, mmhg: 1.333224 };
+
+const toKmh = ({ value, unit }: { value: Reading; unit: string }) =>
+  value === null ? null : value * (WIND_TO_KMH[unit.toLowerCase()] ?? 1);
+
+const toHpa = ({ value, unit }: { value: Reading; unit: string }) =>
+  value === null ? null : value * (PRESSURE_TO_HPA[unit.toLowerCase()] ?? 1);
+
+// Rates come as "mm/Hr" or "in/Hr"
+const toMm = ({ value, unit }: { value: Reading; unit: string }) =>
+  value === null ? null : /^in/i.test(unit) ? value * 25.4 : value;
+
+const findSensor = (sensors: Livedata['common_list'], id: string) => {
+  const sensor = sensors?.find((entry) => entry.id.toLowerCase() === id.toLowerCase());
+  return parseReading(sensor?.val, sensor?.unit);
+};
+
+const getExtras = (data: Livedata): ExtraReading[] => {
+  const extras: ExtraReading[] = [];
+  const indoor = data.wh25?.[0];
+  if (indoor) {
+    extras.push(
+      { id: 'indoorTemp', label: 'Indoor temperature', value: toCelsius(parseReading(indoor.intemp, indoor.unit)), unit: '°C', kind: 'temperature' },
+      { id: 'indoorHumidity', label: 'Indoor humidity', value: parseReading(indoor.inhumi).value, unit: '%', kind: 'humidity' }
+    );
+  }
+
+  data.ch_aisle?.forEach((channel) => {
+    const name = channel.name || `Channel ${channel.channel}`;
+    extras.push(
+      { id: `temp${channel.channel}`, label: `${name} temperature`, value: toCelsius(parseReading(channel.temp, channel.unit)), unit: '°C', kind: 'temperature' },
+      { id: `humidity${channel.channel}`, label: `${name} humidity`, value: parseReading(channel.humidity).value, unit: '%', kind: 'humidity' }
+    );
+  });
+
+  data.ch_soil?.forEach((channel) => {
+    extras.push({
+      id: `soilMoisture${channel.channel}`,
+      label: `${channel.name || `Soil ${channel.channel}`} moisture`,
+      value: parseReading(channel.humidity).value,
+      unit: '%'
+    });
+  });
+
+  const lightning = data.lightning?.[0];
+  if (lightning) {
+    const distance = parseReading(lightning.distance);
+    extras.push(
+      {
+        id: 'lightningDistance',
+        label: 'Last lightning',
+        value: distance.value !== null && /mi/i.test(distance.unit) ? distance.value * 1.609344 : distance.value,
+        unit: 'km'
+      },
+      { id: 'lightningCount', label: 'Lightning strikes today', value: parseReading(lightning.count).value, unit: '' }
+    );
+  }
+  return extras;
+};
+
+// Maps the gateway's live data onto the PWS current observation; gateways
+// carry no clock or location, so the reading is stamped with the fetch time
+export const toCurrentObservation = (stationId: string, data: Livedata, time = new Date()): CurrentObservation => {
+  const common = data.common_list;
+  // Piezo gauges (WS90 and friends) report under their own key
+  const rain = data.rain?.length ? data.rain : data.piezoRain;
+  const indoor = data.wh25?.[0];
+
+  return {
+    stationID: stationId,
+    obsTimeUtc: time.toISOString(),
+    obsTimeLocal: formatLocalTime(time),
+    neighborhood: '',
+    country: '',
+    solarRadiation: findSensor(common, COMMON.solarRadiation).value,
+    lon: null,
+    lat: null,
+    uv: findSensor(common, COMMON.uv).value,
+    winddir: findSensor(common, COMMON.winddir).value,
+    humidity: findSensor(common, COMMON.humidity).value,
+    metric: {
+      temp: toCelsius(findSensor(common, COMMON.temp)),
+      heatIndex: toCelsius(findSensor(common, COMMON.heatIndex)),
+      dewpt: toCelsius(findSensor(common, COMMON.dewpt)),
+      windChill: toCelsius(findSensor(common, COMMON.windChill)),
+      windSpeed: toKmh(findSensor(common, COMMON.windSpeed)),
+      windGust: toKmh(findSensor(common, COMMON.windGust)),
+      pressure: indoor ? toHpa(parseReading(indoor.rel)) : null,
+      precipRate: toMm(findSensor(rain, RAIN.rate)),
+      precipTotal: toMm(findSensor(rain, RAIN.day)),
+      elev: null
+    },
+    extras: getExtras(data)
+  };
+};
+
+// Accepts a bare host ("192.168.1.50") or a full URL to the gateway or a relay
+export const getGatewayUrl = (address: string) => {
+  const trimmed = address.trim().replace(/\/+$/, '');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+};
+
+// Browsers block plain-http requests from https pages, and gateways send no
+// CORS headers, so a hosted copy of the app needs an https relay in between
+export const checkGatewayAddress = (address: string, protocol = window.location.protocol) =>
+  protocol === 'https:' && /^http:/i.test(getGatewayUrl(address))
+    ? 'This page is served over https, so the browser blocks plain-http gateways. ' +
+      'Enter the https address of a relay that forwards to the gateway and allows cross-origin requests, ' +
+      'or open the app over http on your own network.'
+    : null;
+
+const toRecord = (observation: CurrentObservation) =>
+  toImportRecord(new Date(observation.obsTimeUtc), {
+    temp: observation.metric.temp,
+    dewpt: observation.metric.dewpt,
+    humidity: observation.humidity,
+    windSpeed: observation.metric.windSpeed,
+    windGust: observation.metric.windGust,
+    winddir: observation.winddir,
+    pressure: observation.metric.pressure,
+    precipRate: observation.metric.precipRate,
+    rainToday: observation.metric.precipTotal,
+    uv: observation.uv,
+    solarRadiation: observation.solarRadiation
+  });
+
+const NOT_RECORDED = 'The app only records Ecowitt history while it is open, and none was recorded';
+
+export interface EcowittClientOptions {
+  fetch?: typeof fetch;
+  now?: () => Date;
+  // Where earlier live readings are kept; defaults to the local archive
+  readObservations?: (stationId: string, date: Date) => Promise<CurrentObservation[]>;
+}
+
+// Polls the gateway's local API; the station id is the gateway address.
+// Gateways only know the present, so history is summarised from the live
+// readings archived while the app was open
+export const createEcowittClient = ({
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  now = () => new Date(),
+  readObservations = (stationId, date) => readArchivedObservations('ecowitt', stationId, date)
+}: EcowittClientOptions = {}): WeatherProvider => {
+  const getDay = async (stationId: string, date: Date) => {
+    const observations = await readObservations(stationId, date);
+    return summariseRecords(stationId, observations.map(toRecord));
+  };
+
+  return {
+    getCurrent: async (stationId) => {
+      const data = await requestJson(fetchImpl, `${getGatewayUrl(stationId)}/get_livedata_info`, livedataSchema, {
+        stationId
+      });
+      return toCurrentObservation(stationId, data, now());
+    },
+
+    getDailySummaries: async (stationId) => {
+      const week = await getWeek((date) => getDay(stationId, date), now());
+      return requireItems(week.flatMap((day) => day.daily), `${NOT_RECORDED} this week`);
+    },
+
+    getHourly: async (stationId) => {
+      const week = await getWeek((date) => getDay(stationId, date), now());
+      return requireItems(week.flatMap((day) => day.hourly), `${NOT_RECORDED} this week`);
+    },
+
+    getAllToday: async (stationId) => {
+      const today = await getDay(stationId, now());
+      return requireItems(today.all, `${NOT_RECORDED} today`);
+    },
+
+    getHistory: async (stationId, date, granularity = 'daily') => {
+      const day = await getDay(stationId, date);
+      return requireItems(day[granularity], `${NOT_RECORDED} on this date`);
+    }
+  };
+};
+
+export const ecowittProvider: ProviderDefinition = {
+  id: 'ecowitt',
+  label: 'Ecowitt gateway (local)',
+  stationLabel: 'Gateway address',
+  stationPlaceholder: 'e.g., 192.168.1.50',
+  credentialFields: [],
+  checkStationId: (stationId) => checkGatewayAddress(stationId),
+  create: () => createEcowittClient()
+};
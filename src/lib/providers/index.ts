@@ -0,0 +1,34 @@
+import { ambientProvider } from './ambient';
+import { ecowittProvider } from './ecowitt';
+import type { ProviderCredentials, ProviderDefinition, ProviderId, WeatherProvider } from './types';
+import { weatherComProvider } from './weathercom';
+
+export * from './types';
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  weathercom: weatherComProvider,
+  ecowitt: ecowittProvider,
+  ambient: ambientProvider
+};
+
+export const DEFAULT_PROVIDER: ProviderId = 'weathercom';
+
+// Own keys only, so inherited names like 'constructor' are not provider ids
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+
+export const hasCredentials = (id: ProviderId, credentials: ProviderCredentials = {}) =>
+  PROVIDERS[id].credentialFields.every((field) => field.optional || Boolean(credentials[field.key]?.trim()));
+
+const instances = new Map<string, WeatherProvider>();
+
+// Reuses one instance per provider and credentials so query functions stay stable
+export const getProvider = (id: ProviderId, credentials: ProviderCredentials = {}) => {
+  const key = `${id}:${JSON.stringify(credentials)}`;
+  let provider = instances.get(key);
+  if (!provider) {
+    provider = PROVIDERS[id].create(credentials);
+    instances.set(key, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,22 @@
+import { subDays } from 'date-fns';
+import { PwsEmptyPayloadError, SummaryObservation } from '@/lib/pws';
+
+// Helpers for providers that summarise raw readings into the PWS periods
+// themselves rather than fetching finished summaries
+
+export const requireItems = (items: SummaryObservation[], message: string) => {
+  if (items.length === 0) {
+    throw new PwsEmptyPayloadError(message);
+  }
+  return items;
+};
+
+// The seven days up to and including `today`, oldest first like the PWS
+// 7-day endpoints. Days are loaded one after another.
+export const getWeek = async <T>(getDay: (date: Date) => Promise<T>, today: Date) => {
+  const days: T[] = [];
+  for (let offset = 6; offset >= 0; offset--) {
+    days.push(await getDay(subDays(today, offset)));
+  }
+  return days;
+};
@@ -0,0 +1,39 @@
+import type {
+  CurrentObservation,
+  DailySummary,
+  HistoryGranularity,
+  HourlyObservation
+} from '@/lib/pws';
+
+export type ProviderId = 'weathercom' | 'ecowitt' | 'ambient';
+
+export type ProviderCredentials = Record<string, string>;
+
+// Every provider normalises into the PWS observation model the UI renders
+export interface WeatherProvider {
+  getCurrent: (stationId: string) => Promise<CurrentObservation>;
+  getDailySummaries: (stationId: string) => Promise<DailySummary[]>;
+  getHourly: (stationId: string) => Promise<HourlyObservation[]>;
+  getAllToday: (stationId: string) => Promise<HourlyObservation[]>;
+  getHistory: (stationId: string, date: Date, granularity?: HistoryGranularity) => Promise<HourlyObservation[]>;
+}
+
+export interface CredentialField {
+  key: string;
+  label: string;
+  placeholder: string;
+  description: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+  stationLabel: string;
+  stationPlaceholder: string;
+  credentialFields: CredentialField[];
+  // Explains why a station id cannot work from this page, if it cannot
+  checkStationId?: (stationId: string) => string | null;
+  create: (credentials: ProviderCredentials) => WeatherProvider;
+}
@@ -0,0 +1,19 @@
+import { createPwsClient } from '@/lib/pws';
+import type { ProviderDefinition } from './types';
+
+export const weatherComProvider: ProviderDefinition = {
+  id: 'weathercom',
+  label: 'Weather.com PWS',
+  stationLabel: 'Station ID',
+  stationPlaceholder: 'e.g., IBORLN23',
+  credentialFields: [
+    {
+      key: 'apiKey',
+      label: 'API Key',
+      placeholder: 'Enter your Weather.com API key',
+      description: 'Your Weather.com API key for data access',
+      secret: true
+    }
+  ],
+  create: ({ apiKey }) => createPwsClient({ apiKey })
+};
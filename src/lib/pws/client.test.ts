@@ -0,0 +1,224 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createPwsClient, formatHistoryDate, requestJson } from './client';
+import {
+  PwsAuthError,
+  PwsEmptyPayloadError,
+  PwsError,
+  PwsNetworkError,
+  PwsRateLimitError,
+  PwsSchemaError,
+  PwsStationNotFoundError
+} from './errors';
+
+const observation = {
+  stationID: 'KTEST1',
+  obsTimeUtc: '2024-06-01T12:00:00Z',
+  obsTimeLocal: '2024-06-01 14:00:00',
+  neighborhood: 'Test',
+  country: 'DE',
+  solarRadiation: 512.3,
+  lon: 13.4,
+  lat: 52.5,
+  uv: 4,
+  winddir: 270,
+  humidity: 55,
+  metric: {
+    temp: 21.5,
+    heatIndex: 21.5,
+    dewpt: 12.1,
+    windChill: 21.5,
+    windSpeed: 8,
+    windGust: 14,
+    pressure: 1013.2,
+    precipRate: 0,
+    precipTotal: 0,
+    elev: 34
+  }
+};
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' }, ...init });
+
+const stubClient = (response: Response | (() => Promise<Response>)) => {
+  const fetch = vi.fn<typeof globalThis.fetch>(typeof response === 'function' ? response : async () => response);
+  return { fetch, client: createPwsClient({ apiKey: 'secret', fetch }) };
+};
+
+describe('createPwsClient', () => {
+  it('requests the endpoint with the key, station and metric units', async () => {
+    const { fetch, client } = stubClient(json({ observations: [observation] }));
+
+    await client.getCurrent('KTEST1');
+
+    const url = new URL(fetch.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/v2/pws/observations/current');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      apiKey: 'secret',
+      format: 'json',
+      units: 'm',
+      stationId: 'KTEST1'
+    });
+  });
+
+  it('passes the history date as YYYYMMDD', async () => {
+    const { fetch, client } = stubClient(json({ observations: [] }));
+
+    await client.getHistory('KTEST1', new Date(2024, 0, 5), 'hourly').catch(() => undefined);
+
+    const url = new URL(fetch.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/v2/pws/history/hourly');
+    expect(url.searchParams.get('date')).toBe('20240105');
+    expect(formatHistoryDate(new Date(2024, 10, 23))).toBe('20241123');
+  });
+
+  describe('errors', () => {
+    it.each([401, 403])('throws PwsAuthError for %i', async (status) => {
+      const { client } = stubClient(new Response(null, { status }));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsAuthError);
+      expect(error).toBeInstanceOf(PwsError);
+      expect(error.status).toBe(status);
+    });
+
+    it('throws PwsStationNotFoundError with the station id for 404', async () => {
+      const { client } = stubClient(new Response(null, { status: 404 }));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsStationNotFoundError);
+      expect(error.stationId).toBe('KTEST1');
+      expect(error.status).toBe(404);
+    });
+
+    it('throws PwsRateLimitError with Retry-After for 429', async () => {
+      const { client } = stubClient(new Response(null, { status: 429, headers: { 'Retry-After': '30' } }));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsRateLimitError);
+      expect(error.retryAfter).toBe(30);
+    });
+
+    it('throws a plain PwsError for other HTTP failures', async () => {
+      const { client } = stubClient(new Response(null, { status: 500 }));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error.constructor).toBe(PwsError);
+      expect(error.status).toBe(500);
+    });
+
+    it('throws PwsEmptyPayloadError for 204 No Content', async () => {
+      const { client } = stubClient(new Response(null, { status: 204 }));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsEmptyPayloadError);
+      expect(error.status).toBe(204);
+    });
+
+    it('throws PwsEmptyPayloadError when the body is not JSON', async () => {
+      const { client } = stubClient(new Response('<html>', { status: 200 }));
+
+      await expect(client.getCurrent('KTEST1')).rejects.toBeInstanceOf(PwsEmptyPayloadError);
+    });
+
+    it('throws PwsEmptyPayloadError when the station has no observations', async () => {
+      const { client } = stubClient(json({ observations: [] }));
+
+      await expect(client.getCurrent('KTEST1')).rejects.toBeInstanceOf(PwsEmptyPayloadError);
+    });
+
+    it('wraps fetch failures in PwsNetworkError', async () => {
+      const cause = new TypeError('Failed to fetch');
+      const { client } = stubClient(() => Promise.reject(cause));
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsNetworkError);
+      expect(error.cause).toBe(cause);
+    });
+
+    it('throws PwsSchemaError listing the paths that failed validation', async () => {
+      const { client } = stubClient(
+        json({ observations: [{ ...observation, stationID: 42, metric: { ...observation.metric, temp: 'warm' } }] })
+      );
+
+      const error = await client.getCurrent('KTEST1').catch((err) => err);
+
+      expect(error).toBeInstanceOf(PwsSchemaError);
+      expect(error.issues).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^observations\.0\.stationID: /),
+          expect.stringMatching(/^observations\.0\.metric\.temp: /)
+        ])
+      );
+    });
+  });
+
+  describe('missing values', () => {
+    it('normalises omitted and null readings to null', async () => {
+      const { uv, humidity, ...rest } = observation;
+      const { client } = stubClient(
+        json({
+          observations: [
+            {
+              ...rest,
+              humidity: null,
+              neighborhood: null,
+              metric: { ...observation.metric, windGust: null, pressure: undefined }
+            }
+          ]
+        })
+      );
+
+      const current = await client.getCurrent('KTEST1');
+
+      expect(current.uv).toBeNull();
+      expect(current.humidity).toBeNull();
+      expect(current.metric.windGust).toBeNull();
+      expect(current.metric.pressure).toBeNull();
+      expect(current.neighborhood).toBe('');
+    });
+
+    it('keeps real zero readings', async () => {
+      const { client } = stubClient(json({ observations: [{ ...observation, uv: 0 }] }));
+
+      const current = await client.getCurrent('KTEST1');
+
+      expect(current.uv).toBe(0);
+      expect(current.metric.precipTotal).toBe(0);
+    });
+  });
+});
+
+describe('requestJson', () => {
+  const schema = z.object({ ok: z.boolean() });
+  const stubFetch = (response: Response) => vi.fn<typeof globalThis.fetch>(async () => response);
+
+  it('treats a 404 without a station as an empty result', async () => {
+    const fetch = stubFetch(new Response(null, { status: 404 }));
+
+    const error = await requestJson(fetch, 'https://example.test', schema, { emptyMessage: 'Nothing here' }).catch(
+      (err) => err
+    );
+
+    expect(error).toBeInstanceOf(PwsEmptyPayloadError);
+    expect(error.message).toBe('Nothing here');
+  });
+
+  it("uses the API's own error message when it can read one", async () => {
+    const fetch = stubFetch(json({ reason: 'Latitude must be in range' }, { status: 400 }));
+
+    const error = await requestJson(fetch, 'https://example.test', schema, {
+      getErrorMessage: (payload) => (payload as { reason?: string } | null)?.reason
+    }).catch((err) => err);
+
+    expect(error.constructor).toBe(PwsError);
+    expect(error.message).toBe('Latitude must be in range');
+    expect(error.status).toBe(400);
+  });
+});
@@ -0,0 +1,168 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import {
+  PwsAuthError,
+  PwsEmptyPayloadError,
+  PwsError,
+  PwsNetworkError,
+  PwsRateLimitError,
+  PwsSchemaError,
+  PwsStationNotFoundError
+} from './errors';
+import {
+  currentObservationResponseSchema,
+  dailySummaryResponseSchema,
+  observationsResponseSchema
+} from './schemas';
+import type {
+  CurrentObservation,
+  DailySummary,
+  HistoryGranularity,
+  HourlyObservation,
+  PwsUnits
+} from './types';
+
+export const PWS_BASE_URL = 'https://api.weather.com/v2/pws';
+
+export interface PwsClientOptions {
+  apiKey: string;
+  units?: PwsUnits;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface PwsClient {
+  getCurrent: (stationId: string) => Promise<CurrentObservation>;
+  getDailySummaries: (stationId: string) => Promise<DailySummary[]>;
+  getHourly: (stationId: string) => Promise<HourlyObservation[]>;
+  getAllToday: (stationId: string) => Promise<HourlyObservation[]>;
+  getHistory: (stationId: string, date: Date, granularity?: HistoryGranularity) => Promise<HourlyObservation[]>;
+}
+
+// PWS history endpoints take the date as YYYYMMDD in the station's local time
+export const formatHistoryDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+};
+
+export interface RequestJsonOptions {
+  // A 404 means this station does not exist; without one it means no data
+  stationId?: string;
+  // Why a 204 or a 404 without a station came back empty
+  emptyMessage?: string;
+  // Pulls the API's own explanation out of a failed response's body
+  getErrorMessage?: (payload: unknown) => string | undefined;
+}
+
+// Fetches a JSON endpoint and validates it against the schema. Every
+// provider goes through here so failures map onto the same PwsError classes.
+export const requestJson = async <T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  { stationId, emptyMessage, getErrorMessage }: RequestJsonOptions = {}
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetchImpl(url);
+  } catch (err) {
+    throw new PwsNetworkError(err);
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new PwsAuthError(response.status);
+    } else if (response.status === 404) {
+      throw stationId !== undefined
+        ? new PwsStationNotFoundError(stationId)
+        : new PwsEmptyPayloadError(emptyMessage, 404);
+    } else if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new PwsRateLimitError(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+    } else {
+      const message = getErrorMessage?.(await response.json().catch(() => null));
+      throw new PwsError(message ?? `HTTP error! status: ${response.status}`, response.status);
+    }
+  }
+
+  // APIs answer 204 No Content when there is nothing to report
+  if (response.status === 204) {
+    throw new PwsEmptyPayloadError(emptyMessage, 204);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch (err) {
+    throw new PwsEmptyPayloadError('The weather API returned an unreadable response', response.status);
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new PwsSchemaError(
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+};
+
+export const createPwsClient = ({
+  apiKey,
+  units = 'm',
+  baseUrl = PWS_BASE_URL,
+  fetch: fetchImpl = (input, init) => fetch(input, init)
+}: PwsClientOptions): PwsClient => {
+  const buildUrl = (path: string, params: Record<string, string>) => {
+    const search = new URLSearchParams({
+      apiKey,
+      format: 'json',
+      units,
+      ...params
+    });
+    return `${baseUrl}/${path}?${search.toString()}`;
+  };
+
+  const request = <T>(
+    path: string,
+    stationId: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    params: Record<string, string> = {}
+  ): Promise<T> => requestJson(fetchImpl, buildUrl(path, { stationId, ...params }), schema, { stationId });
+
+  const requireItems = <T>(items: T[] | null | undefined, message: string) => {
+    if (!items || items.length === 0) {
+      throw new PwsEmptyPayloadError(message);
+    }
+    return items;
+  };
+
+  return {
+    getCurrent: async (stationId) => {
+      const data = await request('observations/current', stationId, currentObservationResponseSchema);
+      return requireItems(data.observations, 'No weather data available for this station')[0];
+    },
+
+    getDailySummaries: async (stationId) => {
+      const data = await request('dailysummary/7day', stationId, dailySummaryResponseSchema);
+      return requireItems(data.summaries, 'No historical data available for this station');
+    },
+
+    getHourly: async (stationId) => {
+      const data = await request('observations/hourly/7day', stationId, observationsResponseSchema);
+      return requireItems(data.observations, 'No hourly data available for this station');
+    },
+
+    getAllToday: async (stationId) => {
+      const data = await request('observations/all/1day', stationId, observationsResponseSchema);
+      return requireItems(data.observations, 'No observations recorded today for this station');
+    },
+
+    getHistory: async (stationId, date, granularity = 'daily') => {
+      const data = await request(`history/${granularity}`, stationId, observationsResponseSchema, {
+        date: formatHistoryDate(date)
+      });
+      return requireItems(data.observations, 'No historical data available for this date');
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import type { SummaryObservation } from './types';
+
+// obsTimeLocal is "YYYY-MM-DD HH:mm:ss" in the station's own time zone
+export const getLocalDate = (observation: Pick<SummaryObservation, 'obsTimeLocal'>) =>
+  observation.obsTimeLocal.slice(0, 10);
+
+export const getLocalHour = (observation: Pick<SummaryObservation, 'obsTimeLocal'>) =>
+  Number(observation.obsTimeLocal.slice(11, 13));
+
+export const isLocalDateKey = (value: string | undefined) =>
+  Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(parseLocalDate(value).getTime()));
+
+// Parses a YYYY-MM-DD key as a local calendar date (not UTC midnight)
+export const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toLocalDateKey = (date: Date) => [date.getFullYear(), pad(date.getMonth() + 1), pad(date.getDate())].join('-');
+
+// Formats a moment as obsTimeLocal in the browser's time zone
+export const formatLocalTime = (date: Date) =>
+  `${toLocalDateKey(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
@@ -0,0 +1,70 @@
+export class PwsError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'PwsError';
+    this.status = status;
+  }
+}
+
+export class PwsAuthError extends PwsError {
+  constructor(status = 401) {
+    super('Invalid API key. Please check your configuration.', status);
+    this.name = 'PwsAuthError';
+  }
+}
+
+export class PwsStationNotFoundError extends PwsError {
+  readonly stationId: string;
+
+  constructor(stationId: string) {
+    super('Weather station not found. Please check your station ID.', 404);
+    this.name = 'PwsStationNotFoundError';
+    this.stationId = stationId;
+  }
+}
+
+export class PwsRateLimitError extends PwsError {
+  readonly retryAfter?: number;
+
+  constructor(retryAfter?: number) {
+    super('Too many requests to the weather API. Please wait a moment and try again.', 429);
+    this.name = 'PwsRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class PwsNetworkError extends PwsError {
+  readonly cause?: unknown;
+
+  constructor(cause?: unknown) {
+    super('Unable to reach the weather API. Please check your connection.');
+    this.name = 'PwsNetworkError';
+    this.cause = cause;
+  }
+}
+
+export class PwsEmptyPayloadError extends PwsError {
+  constructor(message = 'No weather data available for this station', status?: number) {
+    super(message, status);
+    this.name = 'PwsEmptyPayloadError';
+  }
+}
+
+export class PwsSchemaError extends PwsError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super('The weather API returned data in an unexpected format.');
+    this.name = 'PwsSchemaError';
+    this.issues = issues;
+  }
+}
+
+export class PwsUnsupportedError extends PwsError {
+  constructor(message = 'This data is not available from this weather station') {
+    super(message);
+    this.name = 'PwsUnsupportedError';
+  }
+}
@@ -0,0 +1,6 @@
+export * from './client';
+export * from './dates';
+export * from './errors';
+export * from './schemas';
+export * from './sensors';
+export * from './types';
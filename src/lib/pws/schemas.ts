@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+// Stations without a given sensor either omit the field or send null for it;
+// normalise both to null so the UI can tell "missing" apart from a real zero
+const reading = z
+  .number()
+  .nullable()
+  .optional()
+  .transform((value) => value ?? null);
+
+const text = z
+  .string()
+  .nullable()
+  .optional()
+  .transform((value) => value ?? '');
+
+export const observationValuesSchema = z.object({
+  temp: reading,
+  heatIndex: reading,
+  dewpt: reading,
+  windChill: reading,
+  windSpeed: reading,
+  windGust: reading,
+  pressure: reading,
+  precipRate: reading,
+  precipTotal: reading,
+  elev: reading
+});
+
+// Readings beyond the PWS fields (soil moisture, indoor sensors, lightning)
+// that some providers report; kind says how to convert the metric value
+export const extraReadingSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  value: reading,
+  unit: text,
+  kind: z.enum(['temperature', 'humidity', 'wind', 'pressure', 'rain', 'rainRate']).optional()
+});
+
+export const currentObservationSchema = z.object({
+  stationID: z.string(),
+  obsTimeUtc: z.string(),
+  obsTimeLocal: z.string(),
+  neighborhood: text,
+  country: text,
+  solarRadiation: reading,
+  lon: reading,
+  lat: reading,
+  uv: reading,
+  winddir: reading,
+  humidity: reading,
+  imperial: observationValuesSchema.optional(),
+  metric: observationValuesSchema,
+  extras: z.array(extraReadingSchema).optional()
+});
+
+export const summaryValuesSchema = z.object({
+  tempHigh: reading,
+  tempLow: reading,
+  tempAvg: reading,
+  windspeedHigh: reading,
+  windspeedLow: reading,
+  windspeedAvg: reading,
+  windgustHigh: reading,
+  windgustLow: reading,
+  windgustAvg: reading,
+  dewptHigh: reading,
+  dewptLow: reading,
+  dewptAvg: reading,
+  windchillHigh: reading,
+  windchillLow: reading,
+  windchillAvg: reading,
+  heatindexHigh: reading,
+  heatindexLow: reading,
+  heatindexAvg: reading,
+  pressureMax: reading,
+  pressureMin: reading,
+  pressureTrend: reading,
+  precipRate: reading,
+  precipTotal: reading
+});
+
+export const summaryObservationSchema = z.object({
+  stationID: z.string(),
+  tz: text,
+  obsTimeUtc: z.string(),
+  obsTimeLocal: z.string(),
+  epoch: z.number(),
+  lat: reading,
+  lon: reading,
+  solarRadiationHigh: reading,
+  uvHigh: reading,
+  winddirAvg: reading,
+  humidityHigh: reading,
+  humidityLow: reading,
+  humidityAvg: reading,
+  qcStatus: reading,
+  metric: summaryValuesSchema
+});
+
+export const currentObservationResponseSchema = z.object({
+  observations: z.array(currentObservationSchema).nullable().optional()
+});
+
+export const dailySummaryResponseSchema = z.object({
+  summaries: z.array(summaryObservationSchema).nullable().optional()
+});
+
+export const observationsResponseSchema = z.object({
+  observations: z.array(summaryObservationSchema).nullable().optional()
+});
@@ -0,0 +1,42 @@
+import type { CurrentObservation, Reading, SummaryObservation } from './types';
+
+type SensorCheck<T> = [label: string, read: (observation: T) => Reading];
+
+const currentSensors: SensorCheck<CurrentObservation>[] = [
+  ['Temperature', (o) => o.metric.temp],
+  ['Heat index', (o) => o.metric.heatIndex],
+  ['Wind chill', (o) => o.metric.windChill],
+  ['Dew point', (o) => o.metric.dewpt],
+  ['Humidity', (o) => o.humidity],
+  ['Wind speed', (o) => o.metric.windSpeed],
+  ['Wind gust', (o) => o.metric.windGust],
+  ['Wind direction', (o) => o.winddir],
+  ['Pressure', (o) => o.metric.pressure],
+  ['Precipitation rate', (o) => o.metric.precipRate],
+  ['Precipitation total', (o) => o.metric.precipTotal],
+  ['UV index', (o) => o.uv],
+  ['Solar radiation', (o) => o.solarRadiation]
+];
+
+const summarySensors: SensorCheck<SummaryObservation>[] = [
+  ['Temperature', (o) => o.metric.tempHigh],
+  ['Dew point', (o) => o.metric.dewptAvg],
+  ['Humidity', (o) => o.humidityAvg],
+  ['Wind speed', (o) => o.metric.windspeedAvg],
+  ['Wind gust', (o) => o.metric.windgustHigh],
+  ['Wind direction', (o) => o.winddirAvg],
+  ['Pressure', (o) => o.metric.pressureMax],
+  ['Precipitation', (o) => o.metric.precipTotal],
+  ['UV index', (o) => o.uvHigh],
+  ['Solar radiation', (o) => o.solarRadiationHigh]
+];
+
+const collectMissing = <T>(checks: SensorCheck<T>[], observation: T) =>
+  checks.filter(([, read]) => read(observation) === null).map(([label]) => label);
+
+// Labels of the sensors this observation has no reading for
+export const getMissingSensors = (observation: CurrentObservation) =>
+  collectMissing(currentSensors, observation);
+
+export const getMissingSummarySensors = (summary: SummaryObservation) =>
+  collectMissing(summarySensors, summary);
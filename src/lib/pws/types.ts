@@ -0,0 +1,35 @@
+import type { z } from 'zod';
+import type {
+  currentObservationResponseSchema,
+  currentObservationSchema,
+  extraReadingSchema,
+  dailySummaryResponseSchema,
+  observationsResponseSchema,
+  observationValuesSchema,
+  summaryObservationSchema,
+  summaryValuesSchema
+} from './schemas';
+
+export type PwsUnits = 'm' | 'e';
+
+// Sensor readings are null when the station does not report them
+export type Reading = number | null;
+
+export type ObservationValues = z.infer<typeof observationValuesSchema>;
+export type ExtraReading = z.infer<typeof extraReadingSchema>;
+export type CurrentObservation = z.infer<typeof currentObservationSchema>;
+
+export type SummaryValues = z.infer<typeof summaryValuesSchema>;
+
+// Shape shared by daily summaries and the hourly / 5-minute aggregate
+// observations (dailysummary, observations/hourly, observations/all, history/*)
+export type SummaryObservation = z.infer<typeof summaryObservationSchema>;
+
+export type DailySummary = SummaryObservation;
+export type HourlyObservation = SummaryObservation;
+
+export type CurrentObservationResponse = z.infer<typeof currentObservationResponseSchema>;
+export type DailySummaryResponse = z.infer<typeof dailySummaryResponseSchema>;
+export type ObservationsResponse = z.infer<typeof observationsResponseSchema>;
+
+export type HistoryGranularity = 'daily' | 'hourly' | 'all';
@@ -0,0 +1,48 @@
+import type { CurrentObservation, HourlyObservation, Reading } from '@/lib/pws';
+
+// A single point-in-time set of readings, whether it comes from the current
+// observation or from one row of an intraday / hourly series
+export interface MetricSnapshot {
+  temp: Reading;
+  dewpt: Reading;
+  humidity: Reading;
+  windSpeed: Reading;
+  windGust: Reading;
+  winddir: Reading;
+  pressure: Reading;
+  precipRate: Reading;
+  uv: Reading;
+  solarRadiation: Reading;
+}
+
+const midpoint = (a: Reading, b: Reading) => {
+  if (a === null) return b;
+  if (b === null) return a;
+  return (a + b) / 2;
+};
+
+export const snapshotFromCurrent = (observation: CurrentObservation): MetricSnapshot => ({
+  temp: observation.metric.temp,
+  dewpt: observation.metric.dewpt,
+  humidity: observation.humidity,
+  windSpeed: observation.metric.windSpeed,
+  windGust: observation.metric.windGust,
+  winddir: observation.winddir,
+  pressure: observation.metric.pressure,
+  precipRate: observation.metric.precipRate,
+  uv: observation.uv,
+  solarRadiation: observation.solarRadiation
+});
+
+export const snapshotFromObservation = (observation: HourlyObservation): MetricSnapshot => ({
+  temp: observation.metric.tempAvg,
+  dewpt: observation.metric.dewptAvg,
+  humidity: observation.humidityAvg,
+  windSpeed: observation.metric.windspeedAvg,
+  windGust: observation.metric.windgustHigh,
+  winddir: observation.winddirAvg,
+  pressure: midpoint(observation.metric.pressureMax, observation.metric.pressureMin),
+  precipRate: observation.metric.precipRate,
+  uv: observation.uvHigh,
+  solarRadiation: observation.solarRadiationHigh
+});
@@ -0,0 +1,189 @@
+import type { Reading } from '@/lib/pws';
+
+export type TemperatureUnit = 'C' | 'F';
+export type WindUnit = 'kmh' | 'ms' | 'mph' | 'kn' | 'bft';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type RainUnit = 'mm' | 'in';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  rain: RainUnit;
+}
+
+export const METRIC_UNITS: UnitPreferences = {
+  temperature: 'C',
+  wind: 'kmh',
+  pressure: 'hPa',
+  rain: 'mm'
+};
+
+export const IMPERIAL_UNITS: UnitPreferences = {
+  temperature: 'F',
+  wind: 'mph',
+  pressure: 'inHg',
+  rain: 'in'
+};
+
+export const MISSING_VALUE = '--';
+
+export const TEMPERATURE_UNITS: Record<TemperatureUnit, string> = { C: '°C', F: '°F' };
+export const WIND_UNITS: Record<WindUnit, string> = { kmh: 'km/h', ms: 'm/s', mph: 'mph', kn: 'kn', bft: 'Bft' };
+export const PRESSURE_UNITS: Record<PressureUnit, string> = { hPa: 'hPa', inHg: 'inHg', mmHg: 'mmHg' };
+export const RAIN_UNITS: Record<RainUnit, string> = { mm: 'mm', in: 'in' };
+
+const WIND_DECIMALS: Record<WindUnit, number> = { kmh: 0, ms: 1, mph: 0, kn: 0, bft: 0 };
+const PRESSURE_DECIMALS: Record<PressureUnit, number> = { hPa: 0, inHg: 2, mmHg: 0 };
+const RAIN_DECIMALS: Record<RainUnit, number> = { mm: 1, in: 2 };
+
+// Upper bounds in km/h of Beaufort forces 0-11; anything above is force 12
+const BEAUFORT_LIMITS = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+// Own keys only, so inherited names like 'toString' are not units
+const isUnitOf = (options: Record<string, string>, value: unknown) =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+export const isUnitPreferences = (value: unknown): value is UnitPreferences => {
+  if (!value || typeof value !== 'object') return false;
+  const units = value as Record<string, unknown>;
+  return (
+    isUnitOf(TEMPERATURE_UNITS, units.temperature) &&
+    isUnitOf(WIND_UNITS, units.wind) &&
+    isUnitOf(PRESSURE_UNITS, units.pressure) &&
+    isUnitOf(RAIN_UNITS, units.rain)
+  );
+};
+
+export const getUnitPreset = (units: UnitPreferences): 'metric' | 'imperial' | 'mixed' => {
+  const matches = (preset: UnitPreferences) =>
+    (Object.keys(preset) as (keyof UnitPreferences)[]).every((key) => preset[key] === units[key]);
+  if (matches(METRIC_UNITS)) return 'metric';
+  if (matches(IMPERIAL_UNITS)) return 'imperial';
+  return 'mixed';
+};
+
+// Conversions take the metric values the PWS API returns (°C, km/h, hPa, mm)
+
+export const convertTemperature = (celsius: Reading, unit: TemperatureUnit): Reading => {
+  if (celsius === null) return null;
+  return unit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+};
+
+export const convertWind = (kmh: Reading, unit: WindUnit): Reading => {
+  if (kmh === null) return null;
+  switch (unit) {
+    case 'ms':
+      return kmh / 3.6;
+    case 'mph':
+      return kmh / 1.609344;
+    case 'kn':
+      return kmh / 1.852;
+    case 'bft': {
+      const force = BEAUFORT_LIMITS.findIndex((limit) => kmh < limit);
+      return force === -1 ? 12 : force;
+    }
+    default:
+      return kmh;
+  }
+};
+
+export const convertPressure = (hPa: Reading, unit: PressureUnit): Reading => {
+  if (hPa === null) return null;
+  switch (unit) {
+    case 'inHg':
+      return hPa / 33.8639;
+    case 'mmHg':
+      return hPa / 1.333224;
+    default:
+      return hPa;
+  }
+};
+
+export const convertRain = (mm: Reading, unit: RainUnit): Reading => {
+  if (mm === null) return null;
+  return unit === 'in' ? mm / 25.4 : mm;
+};
+
+export const formatNumber = (value: Reading, decimals = 0) =>
+  value === null ? MISSING_VALUE : value.toFixed(decimals);
+
+export interface UnitFormatter {
+  preferences: UnitPreferences;
+  labels: {
+    temperature: string;
+    wind: string;
+    pressure: string;
+    rain: string;
+    rainRate: string;
+  };
+  temperature: (celsius: Reading, decimals?: number) => string;
+  wind: (kmh: Reading, decimals?: number) => string;
+  pressure: (hPa: Reading, decimals?: number) => string;
+  rain: (mm: Reading, decimals?: number) => string;
+}
+
+export const createUnitFormatter = (preferences: UnitPreferences = METRIC_UNITS): UnitFormatter => ({
+  preferences,
+  labels: {
+    temperature: TEMPERATURE_UNITS[preferences.temperature],
+    wind: WIND_UNITS[preferences.wind],
+    pressure: PRESSURE_UNITS[preferences.pressure],
+    rain: RAIN_UNITS[preferences.rain],
+    rainRate: `${RAIN_UNITS[preferences.rain]}/hr`
+  },
+  temperature: (celsius, decimals = 0) =>
+    formatNumber(convertTemperature(celsius, preferences.temperature), decimals),
+  wind: (kmh, decimals = WIND_DECIMALS[preferences.wind]) =>
+    formatNumber(convertWind(kmh, preferences.wind), preferences.wind === 'bft' ? 0 : decimals),
+  pressure: (hPa, decimals = PRESSURE_DECIMALS[preferences.pressure]) =>
+    formatNumber(convertPressure(hPa, preferences.pressure), decimals),
+  rain: (mm, decimals = RAIN_DECIMALS[preferences.rain]) =>
+    formatNumber(convertRain(mm, preferences.rain), decimals)
+});
+
+export type MetricKind = 'temperature' | 'humidity' | 'wind' | 'pressure' | 'rain' | 'rainRate';
+
+// Converts a metric reading into the user's units, e.g. for comparisons and exports
+export const convertMetric = (metric: { kind: MetricKind }, value: Reading, units: UnitFormatter): Reading => {
+  const { preferences } = units;
+  switch (metric.kind) {
+    case 'temperature':
+      return convertTemperature(value, preferences.temperature);
+    case 'wind':
+      return convertWind(value, preferences.wind);
+    case 'pressure':
+      return convertPressure(value, preferences.pressure);
+    case 'rain':
+    case 'rainRate':
+      return convertRain(value, preferences.rain);
+    default:
+      return value;
+  }
+};
+
+export const getMetricUnit = (metric: { kind: MetricKind }, units: UnitFormatter) =>
+  metric.kind === 'humidity' ? '%' : units.labels[metric.kind];
+
+export const getMetricDecimals = (metric: { kind: MetricKind }, units: UnitFormatter) => {
+  const { preferences } = units;
+  switch (metric.kind) {
+    case 'temperature':
+      return 1;
+    case 'wind':
+      return preferences.wind === 'bft' ? 0 : 1;
+    case 'pressure':
+      return preferences.pressure === 'inHg' ? 2 : 1;
+    case 'rain':
+    case 'rainRate':
+      return preferences.rain === 'in' ? 2 : 1;
+    default:
+      return 0;
+  }
+};
+
+export const getWindDirection = (degrees: Reading) => {
+  if (degrees === null) return MISSING_VALUE;
+  const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  return directions[Math.round(degrees / 22.5) % 16];
+};
@@ -0,0 +1,89 @@
+import type { CredentialStore } from '@/lib/config';
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedCredentials {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey'
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// WebCrypto is only exposed on secure origins (https and localhost)
+export const isVaultSupported = () => typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+
+export const isEncryptedCredentials = (value: unknown): value is EncryptedCredentials => {
+  if (!value || typeof value !== 'object') return false;
+  const { version, iterations, salt, iv, ciphertext } = value as Partial<EncryptedCredentials>;
+  return (
+    version === 1 &&
+    typeof iterations === 'number' &&
+    typeof salt === 'string' &&
+    typeof iv === 'string' &&
+    typeof ciphertext === 'string'
+  );
+};
+
+export const encryptCredentials = async (
+  credentials: CredentialStore,
+  passphrase: string
+): Promise<EncryptedCredentials> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(credentials))
+  );
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext)
+  };
+};
+
+// AES-GCM authenticates the data, so a wrong passphrase fails to decrypt
+// rather than producing garbage
+export const decryptCredentials = async (encrypted: EncryptedCredentials, passphrase: string): Promise<unknown> => {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.ciphertext));
+  } catch (err) {
+    throw new VaultError('Incorrect passphrase');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
@@ -0,0 +1,133 @@
+import type { z, ZodType, ZodTypeDef } from 'zod';
+import type { ForecastLocation } from '@/lib/forecast';
+import { PwsEmptyPayloadError, requestJson } from '@/lib/pws';
+import {
+  dailyForecastResponseSchema,
+  daypartSchema,
+  hourlyForecastResponseSchema,
+  locationSearchResponseSchema,
+  nearbyStationsResponseSchema
+} from './schemas';
+import type { DailyOutlook, ForecastDaypart, HourlyOutlook, LocationMatch, NearbyStation } from './types';
+
+export const WEATHER_COM_V3_URL = 'https://api.weather.com/v3';
+
+export interface WeatherComClientOptions {
+  apiKey: string;
+  language?: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface WeatherComClient {
+  getDailyForecast: (location: ForecastLocation) => Promise<DailyOutlook[]>;
+  getHourlyForecast: (location: ForecastLocation) => Promise<HourlyOutlook[]>;
+  // Nearest first; empty when no station reports near the location
+  findNearbyStations: (location: ForecastLocation) => Promise<NearbyStation[]>;
+  // Resolves a postcode or place name; null when nothing matches
+  searchLocation: (query: string) => Promise<LocationMatch | null>;
+}
+
+const toGeocode = ({ lat, lon }: ForecastLocation) => `${lat.toFixed(4)},${lon.toFixed(4)}`;
+
+// validTimeLocal looks like 2024-05-01T07:00:00-0400
+const toLocalTime = (validTimeLocal: string) => validTimeLocal.slice(0, 16).replace('T', ' ');
+
+const toDaypart = (daypart: z.infer<typeof daypartSchema>, index: number): ForecastDaypart | null => {
+  const name = daypart.daypartName[index];
+  if (!name) return null;
+  return {
+    name,
+    isNight: daypart.dayOrNight[index] === 'N',
+    narrative: daypart.narrative[index] ?? '',
+    phrase: daypart.wxPhraseLong[index] ?? '',
+    iconCode: daypart.iconCode[index] ?? null,
+    precipChance: daypart.precipChance[index] ?? null,
+    temperature: daypart.temperature[index] ?? null
+  };
+};
+
+export const createWeatherComClient = ({
+  apiKey,
+  language = 'en-US',
+  baseUrl = WEATHER_COM_V3_URL,
+  fetch: fetchImpl = (input, init) => fetch(input, init)
+}: WeatherComClientOptions): WeatherComClient => {
+  const request = <T>(
+    path: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    params: Record<string, string>
+  ): Promise<T> => {
+    const search = new URLSearchParams({ apiKey, format: 'json', units: 'm', language, ...params });
+    return requestJson(fetchImpl, `${baseUrl}/${path}?${search.toString()}`, schema, {
+      emptyMessage: 'No results for this location'
+    });
+  };
+
+  return {
+    getDailyForecast: async (location) => {
+      const data = await request('wx/forecast/daily/5day', dailyForecastResponseSchema, {
+        geocode: toGeocode(location)
+      });
+      const [daypart] = data.daypart;
+      // Dayparts alternate day, night for each forecast day
+      return data.dayOfWeek.map((dayOfWeek, index) => ({
+        date: data.validTimeLocal[index].slice(0, 10),
+        dayOfWeek,
+        narrative: data.narrative[index] ?? '',
+        tempMax: data.temperatureMax[index] ?? null,
+        tempMin: data.temperatureMin[index] ?? null,
+        precipTotal: data.qpf[index] ?? null,
+        day: toDaypart(daypart, index * 2),
+        night: toDaypart(daypart, index * 2 + 1)
+      }));
+    },
+
+    getHourlyForecast: async (location) => {
+      const data = await request('wx/forecast/hourly/2day', hourlyForecastResponseSchema, {
+        geocode: toGeocode(location)
+      });
+      return data.validTimeLocal.map((validTimeLocal, index) => ({
+        time: toLocalTime(validTimeLocal),
+        phrase: data.wxPhraseShort[index] ?? '',
+        iconCode: data.iconCode[index] ?? null,
+        precipChance: data.precipChance[index] ?? null,
+        temp: data.temperature[index] ?? null
+      }));
+    },
+
+    findNearbyStations: async (location) => {
+      try {
+        const { location: near } = await request('location/near', nearbyStationsResponseSchema, {
+          geocode: toGeocode(location),
+          product: 'pws'
+        });
+        return near.stationId.map((id, index) => ({
+          id,
+          name: near.stationName[index] ?? '',
+          lat: near.latitude[index] ?? null,
+          lon: near.longitude[index] ?? null,
+          distanceKm: near.distanceKm[index] ?? null,
+          distanceMi: near.distanceMi[index] ?? null
+        }));
+      } catch (err) {
+        if (err instanceof PwsEmptyPayloadError) return [];
+        throw err;
+      }
+    },
+
+    searchLocation: async (query) => {
+      try {
+        const { location } = await request('location/search', locationSearchResponseSchema, { query });
+        if (location.latitude.length === 0) return null;
+        return {
+          name: location.address[0] ?? query,
+          location: { lat: location.latitude[0], lon: location.longitude[0] }
+        };
+      } catch (err) {
+        if (err instanceof PwsEmptyPayloadError) return null;
+        throw err;
+      }
+    }
+  };
+};
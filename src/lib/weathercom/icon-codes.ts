@@ -0,0 +1,16 @@
+import type { WeatherCondition } from '@/lib/forecast';
+
+// Weather.com icon codes 0–47 grouped into the conditions the app draws
+const ICON_CONDITIONS: [number[], WeatherCondition][] = [
+  [[0, 1, 2, 3, 4, 17, 37, 38, 47], 'thunderstorm'],
+  [[5, 6, 7, 13, 14, 15, 16, 18, 25, 41, 42, 43, 46], 'snow'],
+  [[8, 9], 'drizzle'],
+  [[10, 11, 12, 35, 39, 40, 45], 'rain'],
+  [[19, 20, 21, 22], 'fog'],
+  [[23, 24, 26, 27, 28], 'cloudy'],
+  [[29, 30, 33, 34], 'partlyCloudy'],
+  [[31, 32, 36], 'clear']
+];
+
+export const conditionFromIconCode = (code: number | null): WeatherCondition =>
+  ICON_CONDITIONS.find(([codes]) => code !== null && codes.includes(code))?.[1] ?? 'cloudy';
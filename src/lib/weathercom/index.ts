@@ -0,0 +1,4 @@
+export * from './client';
+export * from './icon-codes';
+export * from './schemas';
+export * from './types';
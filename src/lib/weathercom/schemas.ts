@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// v3 responses are parallel arrays, one entry per day, daypart or hour;
+// entries that no longer apply (today's daytime in the evening) are null
+const numbers = z.array(z.number().nullable());
+const strings = z.array(z.string().nullable());
+
+export const daypartSchema = z.object({
+  dayOrNight: strings,
+  daypartName: strings,
+  narrative: strings,
+  precipChance: numbers,
+  iconCode: numbers,
+  wxPhraseLong: strings,
+  temperature: numbers
+});
+
+export const dailyForecastResponseSchema = z.object({
+  dayOfWeek: z.array(z.string()),
+  validTimeLocal: z.array(z.string()),
+  narrative: strings,
+  temperatureMax: numbers,
+  temperatureMin: numbers,
+  qpf: numbers,
+  daypart: z.array(daypartSchema).min(1)
+});
+
+export const hourlyForecastResponseSchema = z.object({
+  validTimeLocal: z.array(z.string()),
+  temperature: numbers,
+  precipChance: numbers,
+  iconCode: numbers,
+  wxPhraseShort: strings
+});
+
+export const nearbyStationsResponseSchema = z.object({
+  location: z.object({
+    stationId: z.array(z.string()),
+    stationName: strings,
+    latitude: numbers,
+    longitude: numbers,
+    distanceKm: numbers,
+    distanceMi: numbers
+  })
+});
+
+export const locationSearchResponseSchema = z.object({
+  location: z.object({
+    address: strings,
+    latitude: z.array(z.number()),
+    longitude: z.array(z.number())
+  })
+});
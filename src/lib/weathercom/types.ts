@@ -0,0 +1,52 @@
+import type { ForecastLocation } from '@/lib/forecast';
+import type { Reading } from '@/lib/pws';
+
+export interface ForecastDaypart {
+  name: string;
+  isNight: boolean;
+  narrative: string;
+  phrase: string;
+  iconCode: Reading;
+  precipChance: Reading;
+  temperature: Reading;
+}
+
+// One forecast day with its daytime and overnight parts, in metric units
+export interface DailyOutlook {
+  date: string;
+  dayOfWeek: string;
+  narrative: string;
+  tempMax: Reading;
+  tempMin: Reading;
+  precipTotal: Reading;
+  day: ForecastDaypart | null;
+  night: ForecastDaypart | null;
+}
+
+export interface HourlyOutlook {
+  // YYYY-MM-DD HH:mm in the forecast location's time zone
+  time: string;
+  phrase: string;
+  iconCode: Reading;
+  precipChance: Reading;
+  temp: Reading;
+}
+
+export interface WeatherComForecast {
+  daily: DailyOutlook[];
+  hourly: HourlyOutlook[];
+}
+
+export interface NearbyStation {
+  id: string;
+  name: string;
+  lat: Reading;
+  lon: Reading;
+  distanceKm: Reading;
+  distanceMi: Reading;
+}
+
+export interface LocationMatch {
+  name: string;
+  location: ForecastLocation;
+}
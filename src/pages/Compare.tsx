@@ -0,0 +1,31 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { StationComparison } from '@/components/StationComparison';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import { parseStationList } from '@/lib/comparison';
+
+const Compare = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { config } = useWeatherApp();
+
+  const requested = parseStationList(searchParams.get('stations'));
+  const stationIds = requested.length > 0 ? requested : config.stations.map((station) => station.id);
+  const referenceId = searchParams.get('ref') ?? stationIds[0];
+
+  const updateParams = (next: string[], ref: string) => {
+    setSearchParams({ stations: next.join(','), ref: next.includes(ref) ? ref : next[0] }, { replace: true });
+  };
+
+  return (
+    <StationComparison
+      config={config}
+      stationIds={stationIds}
+      referenceId={referenceId}
+      onStationsChange={(next) => updateParams(next, referenceId)}
+      onReferenceChange={(ref) => updateParams(stationIds, ref)}
+      onBackClick={() => navigate('/')}
+    />
+  );
+};
+
+export default Compare;
@@ -0,0 +1,36 @@
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { WeatherHistory } from '@/components/WeatherHistory';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import { parseHistoryRange } from '@/lib/history-range';
+import { toLocalDateKey } from '@/lib/pws';
+import NotFound from './NotFound';
+
+const History = () => {
+  const navigate = useNavigate();
+  const { stationId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { config } = useWeatherApp();
+
+  if (!config.stations.some((station) => station.id === stationId)) {
+    return <NotFound />;
+  }
+
+  const range = parseHistoryRange(searchParams.get('from'), searchParams.get('to'));
+
+  return (
+    <WeatherHistory
+      config={config}
+      stationId={stationId}
+      range={range}
+      onRangeChange={(next) =>
+        setSearchParams(next ? { from: toLocalDateKey(next.from), to: toLocalDateKey(next.to) } : {}, { replace: true })
+      }
+      // Keep the range in the URL so the day view can come back to it
+      onDayClick={(date) => navigate({ pathname: date, search: searchParams.toString() })}
+      onImportClick={() => navigate(`/station/${encodeURIComponent(stationId)}/import`)}
+      onBackClick={() => navigate(`/station/${encodeURIComponent(stationId)}`)}
+    />
+  );
+};
+
+export default History;
@@ -0,0 +1,27 @@
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { WeatherHourly } from '@/components/WeatherHourly';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import { isLocalDateKey } from '@/lib/pws';
+import NotFound from './NotFound';
+
+const HistoryDay = () => {
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const { stationId, date } = useParams();
+  const { config } = useWeatherApp();
+
+  if (!config.stations.some((station) => station.id === stationId) || !isLocalDateKey(date)) {
+    return <NotFound />;
+  }
+
+  return (
+    <WeatherHourly
+      config={config}
+      stationId={stationId}
+      date={date}
+      onBackClick={() => navigate({ pathname: `/station/${encodeURIComponent(stationId)}/history`, search })}
+    />
+  );
+};
+
+export default HistoryDay;
@@ -0,0 +1,27 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { WeatherImport } from '@/components/WeatherImport';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import NotFound from './NotFound';
+
+const Import = () => {
+  const navigate = useNavigate();
+  const { stationId } = useParams();
+  const { config } = useWeatherApp();
+
+  if (!config.stations.some((station) => station.id === stationId)) {
+    return <NotFound />;
+  }
+
+  const historyPath = `/station/${encodeURIComponent(stationId)}/history`;
+
+  return (
+    <WeatherImport
+      config={config}
+      stationId={stationId}
+      onImported={(from, to) => navigate({ pathname: historyPath, search: `?from=${from}&to=${to}` })}
+      onBackClick={() => navigate(historyPath)}
+    />
+  );
+};
+
+export default Import;
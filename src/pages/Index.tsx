@@ -1,7 +1,10 @@
-import { WeatherApp } from '@/components/WeatherApp';
+import { Navigate } from 'react-router-dom';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import { getActiveStation } from '@/lib/config';
 
 const Index = () => {
-  return <WeatherApp />;
+  const { config } = useWeatherApp();
+  return <Navigate to={`/station/${encodeURIComponent(getActiveStation(config).id)}`} replace />;
 };
 
 export default Index;
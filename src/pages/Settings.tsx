@@ -0,0 +1,23 @@
+import { useNavigate } from 'react-router-dom';
+import { WeatherConfig } from '@/components/WeatherConfig';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import { getActiveStation, WeatherConfigData } from '@/lib/config';
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { config, onConfigSave } = useWeatherApp();
+
+  const handleConfigSave = (newConfig: WeatherConfigData) => {
+    onConfigSave(newConfig);
+    navigate(`/station/${encodeURIComponent(getActiveStation(newConfig).id)}`);
+  };
+
+  return (
+    <WeatherConfig
+      onConfigSave={handleConfigSave}
+      initialConfig={config || undefined}
+    />
+  );
+};
+
+export default Settings;
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { WeatherDashboard } from '@/components/WeatherDashboard';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import NotFound from './NotFound';
+
+const Station = () => {
+  const navigate = useNavigate();
+  const { stationId } = useParams();
+  const { config, onStationChange } = useWeatherApp();
+  const isKnownStation = config.stations.some((station) => station.id === stationId);
+
+  // Deep links also select the station for the next visit
+  useEffect(() => {
+    if (isKnownStation) {
+      onStationChange(stationId);
+    }
+  }, [isKnownStation, stationId, onStationChange]);
+
+  if (!isKnownStation) {
+    return <NotFound />;
+  }
+
+  return (
+    <WeatherDashboard
+      config={config}
+      stationId={stationId}
+      onStationChange={(id) => navigate(`/station/${encodeURIComponent(id)}`)}
+      onTodayClick={() => navigate('today')}
+      onHistoryClick={() => navigate('history')}
+      onCompareClick={(stationIds) =>
+        navigate(`/compare?stations=${stationIds.map(encodeURIComponent).join(',')}&ref=${encodeURIComponent(stationId)}`)
+      }
+      onSettingsClick={() => navigate('/settings')}
+    />
+  );
+};
+
+export default Station;
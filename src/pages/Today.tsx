@@ -0,0 +1,24 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { WeatherToday } from '@/components/WeatherToday';
+import { useWeatherApp } from '@/hooks/use-weather-app';
+import NotFound from './NotFound';
+
+const Today = () => {
+  const navigate = useNavigate();
+  const { stationId } = useParams();
+  const { config } = useWeatherApp();
+
+  if (!config.stations.some((station) => station.id === stationId)) {
+    return <NotFound />;
+  }
+
+  return (
+    <WeatherToday
+      config={config}
+      stationId={stationId}
+      onBackClick={() => navigate(`/station/${encodeURIComponent(stationId)}`)}
+    />
+  );
+};
+
+export default Today;
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "mock" replaces the Open-Meteo forecast with generated data
+  readonly VITE_FORECAST_SOURCE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}